@@ -0,0 +1,98 @@
+import { VanityGenerator } from './generator.js';
+import type { BudgetReport, GenerateOptions, GeneratorConfig, VanityAddressResult } from './types.js';
+
+/**
+ * Yields results as the search finds them
+ *
+ * Target modes yield each match until every target is satisfied (or forever
+ * with `continuous`); 'score' mode yields the final top K once its budget
+ * runs out. Workers are stopped when the search ends, when the signal aborts
+ * (which throws its reason) and when the loop is left early.
+ */
+export async function* generateAddresses(
+  config: GeneratorConfig,
+  options: GenerateOptions = {}
+): AsyncGenerator<VanityAddressResult, void, undefined> {
+  const { signal, onProgress, onBudgetExhausted, onWorkerRestarted, onVerificationFailed } = options;
+  signal?.throwIfAborted();
+  
+  const generator = new VanityGenerator(config);
+  const queue: VanityAddressResult[] = [];
+  let completed = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+  
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+  const fail = (error: unknown) => {
+    failure ??= { error };
+    generator.stop();
+    notify();
+  };
+  const abort = () => fail(signal!.reason);
+  
+  generator.on('found', (result: VanityAddressResult) => {
+    queue.push(result);
+    notify();
+  });
+  generator.on('progress', stats => onProgress?.(stats));
+  generator.on('budgetExhausted', report => onBudgetExhausted?.(report));
+  generator.on('workerRestarted', restart => onWorkerRestarted?.(restart));
+  generator.on('verificationFailed', report => onVerificationFailed?.(report));
+  generator.on('error', fail);
+  generator.on('completed', summary => {
+    queue.push(...(summary.best ?? []));
+    completed = true;
+    notify();
+  });
+  signal?.addEventListener('abort', abort, { once: true });
+  
+  try {
+    generator.start();
+    
+    while (true) {
+      if (failure) throw failure.error;
+      
+      const result = queue.shift();
+      if (result) {
+        yield result;
+      } else if (completed) {
+        return;
+      } else {
+        await new Promise<void>(resolve => (wake = resolve));
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort);
+    generator.stop();
+  }
+}
+
+/**
+ * Searches until the first result and stops
+ *
+ * Resolves with the first match, or in 'score' mode with the best address
+ * once the budget runs out. Rejects with the signal's reason when aborted,
+ * and with an error whose `cause` is the budget report when the budget runs
+ * out without a match.
+ */
+export async function generate(config: GeneratorConfig, options: GenerateOptions = {}): Promise<VanityAddressResult> {
+  let budget: BudgetReport | undefined;
+  const results = generateAddresses(config, {
+    ...options,
+    onBudgetExhausted: report => {
+      budget = report;
+      options.onBudgetExhausted?.(report);
+    }
+  });
+  
+  for await (const result of results) {
+    return result;
+  }
+  
+  throw budget
+    ? new Error(`Budget used up after ${budget.stats.totalAttempts} attempts without a match`, { cause: budget })
+    : new Error('Search ended without a match');
+}
@@ -0,0 +1,109 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { createBase58check } from '@scure/base';
+
+/**
+ * Base58 alphabet shared by Solana, Tron and Bitcoin addresses, in digit order
+ */
+export const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base58Check coder: base58 with a double SHA-256 checksum (Tron, Bitcoin P2PKH)
+ */
+export const base58check = createBase58check(sha256);
+
+/**
+ * Leading characters whose cases are counted exactly when matching ignores case
+ */
+const EXACT_CASE_CHARS = 3;
+
+/**
+ * Gets the alphabet characters a target character matches, ignoring case
+ */
+function getCaseVariants(char: string): string[] {
+  return [...new Set([char.toLowerCase(), char.toUpperCase()])].filter(variant => BASE58_ALPHABET.includes(variant));
+}
+
+/**
+ * Gets every case spelling of a target's first characters
+ */
+function getLeadingVariants(target: string): string[] {
+  return [...target.slice(0, EXACT_CASE_CHARS)].reduce<string[]>(
+    (prefixes, char) => prefixes.flatMap(prefix => getCaseVariants(char).map(variant => prefix + variant)),
+    ['']
+  );
+}
+
+/**
+ * Counts the numbers in [lower, upper) whose base58 digits start with a prefix
+ */
+function countWithBase58Prefix(prefix: string, lower: bigint, upper: bigint): bigint {
+  const value = [...prefix].reduce((value, char) => value * 58n + BigInt(BASE58_ALPHABET.indexOf(char)), 0n);
+  let count = 0n;
+
+  // Numbers with L digits starting with the prefix form [value, value + 1) * 58^(L - k)
+  for (let scale = 1n; value * scale < upper; scale *= 58n) {
+    const from = value * scale > lower ? value * scale : lower;
+    const to = (value + 1n) * scale < upper ? (value + 1n) * scale : upper;
+    if (to > from) count += to - from;
+  }
+
+  return count;
+}
+
+/**
+ * Gets the exact probability that the base58 encoding of a number drawn
+ * uniformly from [lower, upper) starts with the target
+ *
+ * Without case sensitivity, every case of the first few characters is
+ * counted exactly and later characters by their number of cases.
+ */
+export function getBase58RangeStartProbability(
+  target: string,
+  caseSensitive: boolean,
+  lower: bigint,
+  upper: bigint
+): number {
+  const firsts = caseSensitive ? [target.slice(0, EXACT_CASE_CHARS)] : getLeadingVariants(target);
+  const later = target.slice(EXACT_CASE_CHARS);
+  const laterCases = caseSensitive ? 1 : [...later].reduce((product, char) => product * getCaseVariants(char).length, 1);
+  const count = firsts.reduce((sum, first) => sum + countWithBase58Prefix(first + later, lower, upper), 0n);
+
+  return (Number(count) / Number(upper - lower)) * laterCases;
+}
+
+/**
+ * Gets the exact probability that the base58 encoding of random bytes starts with the target
+ *
+ * Leading characters of a fixed-size number are far from uniform: a 32-byte
+ * key encodes to 43 or 44 characters, and characters that only fit the
+ * shorter length are much rarer at the start. Leading '1's stand for zero
+ * bytes.
+ */
+export function getBase58StartProbability(target: string, caseSensitive: boolean, byteLength = 32): number {
+  const rest = target.replace(/^1+/, '');
+  const zeroBytes = target.length - rest.length;
+  if (zeroBytes >= byteLength) {
+    return 0;
+  }
+  if (rest.length === 0) {
+    return 256 ** -zeroBytes;
+  }
+
+  // The remaining bytes start with a non-zero byte
+  const length = BigInt(byteLength - zeroBytes);
+  const probability = getBase58RangeStartProbability(rest, caseSensitive, 256n ** (length - 1n), 256n ** length);
+  return probability * (255 / 256) * 256 ** -zeroBytes;
+}
+
+/**
+ * Gets the probability that the base58 encoding of random bytes is at least
+ * `length` characters long
+ *
+ * Only numbers from 58^(length - 1) up reach that length, so a 32-byte key
+ * encodes to 44 characters about 94% of the time and to 43 or fewer
+ * otherwise. The bytes are treated as one number, leaving out the rare
+ * leading zero bytes.
+ */
+export function getBase58LengthProbability(length: number, byteLength = 32): number {
+  return length <= 1 ? 1 : Math.max(0, 1 - 58 ** (length - 1) / 256 ** byteLength);
+}
@@ -0,0 +1,152 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { VanityGenerator } from './generator.js';
+import { getCandidatesPerAttempt } from './utils.js';
+import type { BenchmarkProfile, BenchmarkResult, GeneratorConfig, PerformanceStats } from './types.js';
+
+/**
+ * Gets the path of the calibration profile
+ *
+ * Defaults to ~/.v4n1ty/profile.json; V4N1TY_PROFILE overrides it.
+ */
+export function getProfilePath(): string {
+  return process.env.V4N1TY_PROFILE || join(homedir(), '.v4n1ty', 'profile.json');
+}
+
+/**
+ * Loads the calibration profile, or an empty one if none has been saved
+ */
+export function loadProfile(path: string = getProfilePath()): BenchmarkProfile {
+  if (!existsSync(path)) {
+    return { version: 1, results: {} };
+  }
+
+  const profile: BenchmarkProfile = JSON.parse(readFileSync(path, 'utf8'));
+  if (profile.version !== 1 || typeof profile.results !== 'object') {
+    throw new Error(`Unsupported benchmark profile: ${path}`);
+  }
+  return profile;
+}
+
+/**
+ * Gets the key a chain and address type are stored under in the profile
+ *
+ * Ethereum results keep the bare address type, as before chains were added.
+ * Bitcoin encodings differ in cost, so each is kept apart.
+ */
+function getProfileKey(config: Pick<GeneratorConfig, 'chain' | 'bitcoinFormat' | 'addressType'>): string {
+  const chain = config.chain ?? 'ethereum';
+  const addressType = config.addressType ?? 'eoa';
+  if (chain === 'bitcoin') {
+    return `${chain}-${config.bitcoinFormat ?? 'p2wpkh'}-${addressType}`;
+  }
+  return chain === 'ethereum' ? addressType : `${chain}-${addressType}`;
+}
+
+/**
+ * Records a benchmark result in the calibration profile, replacing any
+ * earlier result for the same chain and address type
+ */
+export function saveBenchmark(result: BenchmarkResult, path: string = getProfilePath()): string {
+  const profile = loadProfile(path);
+  profile.results[getProfileKey(result)] = result;
+
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(profile, null, 2) + '\n', 'utf8');
+  return path;
+}
+
+/**
+ * Gets the benchmark result that applies to a configuration
+ *
+ * A result only applies when it was measured with the same number of
+ * candidates per attempt (nonces or mnemonic indices).
+ */
+export function getBenchmark(
+  profile: BenchmarkProfile,
+  config: Pick<GeneratorConfig, 'chain' | 'bitcoinFormat' | 'addressType' | 'nonceCount' | 'accountCount'>
+): BenchmarkResult | undefined {
+  const result = profile.results[getProfileKey(config)];
+  return result && result.candidatesPerAttempt === getCandidatesPerAttempt(config) ? result : undefined;
+}
+
+/**
+ * Gets the calibrated speed in attempts per second for a worker count
+ *
+ * Uses the sample for that worker count when there is one; otherwise scales
+ * the closest sample linearly, never beyond the best measured speed.
+ */
+export function getCalibratedSpeed(result: BenchmarkResult, workers: number = result.optimalWorkers): number {
+  const closest = result.samples.reduce((best, sample) =>
+    Math.abs(sample.workers - workers) < Math.abs(best.workers - workers) ? sample : best
+  );
+
+  if (closest.workers === workers) {
+    return closest.speed;
+  }
+  return Math.min(result.speed, (closest.speed * workers) / closest.workers);
+}
+
+/**
+ * Measures search throughput in attempts per second
+ *
+ * Runs a search that will never match, discarding the first progress update
+ * so that worker start-up is not counted.
+ */
+export function measureThroughput(config: GeneratorConfig, seconds: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const generator = new VanityGenerator(config);
+    let warm: PerformanceStats | undefined;
+
+    generator.on('progress', (stats: PerformanceStats) => {
+      if (!warm) {
+        warm = stats;
+        return;
+      }
+
+      const elapsed = stats.totalTime - warm.totalTime;
+      if (elapsed >= seconds) {
+        generator.stop();
+        resolve((stats.totalAttempts - warm.totalAttempts) / elapsed);
+      }
+    });
+
+    generator.on('error', (error: Error) => {
+      generator.stop();
+      reject(error);
+    });
+
+    generator.start();
+  });
+}
+
+/**
+ * Benchmarks a configuration across worker counts
+ */
+export async function runBenchmark(
+  config: GeneratorConfig,
+  workerCounts: number[],
+  seconds: number,
+  onSample?: (workers: number, speed: number) => void
+): Promise<BenchmarkResult> {
+  const samples = [];
+
+  for (const workers of workerCounts) {
+    const speed = await measureThroughput({ ...config, numWorkers: workers }, seconds);
+    samples.push({ workers, speed });
+    onSample?.(workers, speed);
+  }
+
+  const best = samples.reduce((best, sample) => (sample.speed > best.speed ? sample : best));
+  return {
+    chain: config.chain ?? 'ethereum',
+    bitcoinFormat: config.chain === 'bitcoin' ? config.bitcoinFormat ?? 'p2wpkh' : undefined,
+    addressType: config.addressType ?? 'eoa',
+    candidatesPerAttempt: getCandidatesPerAttempt(config),
+    samples,
+    optimalWorkers: best.workers,
+    speed: best.speed,
+    measuredAt: new Date().toISOString()
+  };
+}
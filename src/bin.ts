@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+
+import { CLI } from './cli.js';
+
+/**
+ * Command-line entry point for the vanity address generator
+ */
+async function main(): Promise<void> {
+  const cli = new CLI();
+  await cli.execute(process.argv);
+}
+
+// Run the CLI
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+}); 
\ No newline at end of file
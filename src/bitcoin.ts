@@ -0,0 +1,102 @@
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToNumberBE, numberToBytesBE } from '@noble/curves/abstract/utils';
+import { ripemd160 } from '@noble/hashes/ripemd160';
+import { sha256 } from '@noble/hashes/sha256';
+import { bech32, bech32m } from '@scure/base';
+import { base58check, getBase58LengthProbability, getBase58StartProbability } from './base58.js';
+import type { BitcoinFormat } from './types.js';
+
+/**
+ * Bech32 alphabet used for SegWit addresses, in digit order
+ */
+export const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+const { ProjectivePoint, CURVE } = secp256k1;
+
+function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+/**
+ * Encodes an uncompressed public key (x || y, without the 04 byte) as a
+ * P2PKH or P2WPKH address of its compressed form
+ */
+export function toBitcoinAddress(point: Uint8Array, format: Exclude<BitcoinFormat, 'p2tr'>): string {
+  const compressed = new Uint8Array(33);
+  compressed[0] = 2 + (point[63]! & 1);
+  compressed.set(point.subarray(0, 32), 1);
+  const hash = hash160(compressed);
+
+  if (format === 'p2pkh') {
+    const payload = new Uint8Array(21);
+    payload.set(hash, 1);
+    return base58check.encode(payload);
+  }
+  return bech32.encode('bc', [0, ...bech32.toWords(hash)]);
+}
+
+/**
+ * Encodes a private key in Wallet Import Format, for a compressed mainnet key
+ */
+export function toWif(privateKey: Uint8Array): string {
+  const payload = new Uint8Array(34);
+  payload[0] = 0x80;
+  payload.set(privateKey, 1);
+  payload[33] = 0x01;
+  return base58check.encode(payload);
+}
+
+/**
+ * Decodes a compressed mainnet private key from Wallet Import Format
+ */
+export function fromWif(wif: string): Uint8Array {
+  const payload = base58check.decode(wif);
+  if (payload.length !== 34 || payload[0] !== 0x80 || payload[33] !== 0x01) {
+    throw new Error('WIF must encode a compressed mainnet private key');
+  }
+  return payload.slice(1, 33);
+}
+
+/**
+ * Gets the BIP-86 Taproot address of a private key used as the internal key
+ *
+ * The output key is the internal key (with even y) tweaked by the tagged
+ * hash of its x coordinate, with no script path.
+ */
+export function toTaprootAddress(privateKey: Uint8Array): string {
+  const internal = ProjectivePoint.fromPrivateKey(privateKey);
+  const { x, y } = internal.toAffine();
+  const even = y % 2n === 0n ? internal : internal.negate();
+  const xBytes = numberToBytesBE(x, 32);
+  const tweak = bytesToNumberBE(schnorr.utils.taggedHash('TapTweak', xBytes)) % CURVE.n;
+  const output = even.add(ProjectivePoint.BASE.multiply(tweak)).toAffine();
+  return bech32m.encode('bc', [1, ...bech32m.toWords(numberToBytesBE(output.x, 32))]);
+}
+
+/**
+ * Generates a random Taproot address along with its internal key in WIF
+ *
+ * The tweak needs a scalar multiplication per key, so Taproot keys are not
+ * walked along the curve.
+ */
+export function generateTaprootKey(): { address: string; wif: string } {
+  const privateKey = secp256k1.utils.randomPrivateKey();
+  return { address: toTaprootAddress(privateKey), wif: toWif(privateKey) };
+}
+
+/**
+ * Gets the exact probability that a P2PKH address starts with the target (after the 1)
+ *
+ * The rest of the address encodes the 20-byte hash and 4-byte checksum, with
+ * a further '1' for each leading zero byte.
+ */
+export function getP2pkhStartProbability(target: string, caseSensitive: boolean): number {
+  return getBase58StartProbability(target, caseSensitive, 24);
+}
+
+/**
+ * Gets the probability that a P2PKH address is at least `length` characters long (after the 1)
+ */
+export function getP2pkhLengthProbability(length: number): number {
+  return getBase58LengthProbability(length, 24);
+}
@@ -0,0 +1,104 @@
+import { BASE58_ALPHABET, getBase58LengthProbability, getBase58StartProbability } from './base58.js';
+import { BECH32_ALPHABET, getP2pkhLengthProbability, getP2pkhStartProbability } from './bitcoin.js';
+import { getTronStartProbability } from './tron.js';
+import type { AddressFormat, BitcoinFormat, ChainId, GeneratorConfig } from './types.js';
+
+/**
+ * Chains that can be searched, Ethereum first as the default
+ */
+export const CHAINS: ChainId[] = ['ethereum', 'solana', 'tron', 'bitcoin'];
+
+/**
+ * Bitcoin address encodings, native SegWit first as the default
+ */
+export const BITCOIN_FORMATS: BitcoinFormat[] = ['p2wpkh', 'p2pkh', 'p2tr'];
+
+const BASE58_LOOKALIKES = { '0': 'o', O: 'o', I: 'i', l: 'L' };
+const BECH32_LOOKALIKES = { b: '6', i: 'l', o: '0', '1': 'l' };
+
+const ADDRESS_FORMATS: Record<Exclude<ChainId, 'bitcoin'>, AddressFormat> = {
+  ethereum: {
+    chain: 'ethereum',
+    alphabet: '0123456789abcdef',
+    characterName: 'hex digit',
+    prefix: '0x',
+    length: 40,
+    caseMode: 'checksum',
+    lookalikes: { o: '0', i: '1', l: '1', z: '2', s: '5', g: '9', t: '7' },
+    searchModes: ['anywhere', 'start', 'end', 'position', 'pattern', 'score'],
+    addressTypes: ['eoa', 'create', 'create2', 'mnemonic', 'split-key', 'safe', 'simple-account']
+  },
+  solana: {
+    chain: 'solana',
+    alphabet: BASE58_ALPHABET,
+    characterName: 'base58 character',
+    prefix: '',
+    length: 44,
+    caseMode: 'native',
+    lookalikes: BASE58_LOOKALIKES,
+    searchModes: ['anywhere', 'start', 'end', 'position'],
+    addressTypes: ['eoa'],
+    getStartProbability: getBase58StartProbability,
+    getLengthProbability: length => getBase58LengthProbability(length)
+  },
+  tron: {
+    chain: 'tron',
+    alphabet: BASE58_ALPHABET,
+    characterName: 'base58 character',
+    prefix: 'T',
+    length: 33,
+    caseMode: 'native',
+    lookalikes: BASE58_LOOKALIKES,
+    searchModes: ['anywhere', 'start', 'end', 'position'],
+    addressTypes: ['eoa'],
+    getStartProbability: getTronStartProbability
+  }
+};
+
+const BITCOIN_ADDRESS_FORMATS: Record<BitcoinFormat, AddressFormat> = {
+  p2pkh: {
+    chain: 'bitcoin',
+    alphabet: BASE58_ALPHABET,
+    characterName: 'base58 character',
+    prefix: '1',
+    length: 33,
+    caseMode: 'native',
+    lookalikes: BASE58_LOOKALIKES,
+    searchModes: ['anywhere', 'start', 'end', 'position'],
+    addressTypes: ['eoa'],
+    getStartProbability: getP2pkhStartProbability,
+    getLengthProbability: getP2pkhLengthProbability
+  },
+  p2wpkh: {
+    chain: 'bitcoin',
+    alphabet: BECH32_ALPHABET,
+    characterName: 'bech32 character',
+    prefix: 'bc1q',
+    length: 38,
+    caseMode: 'native',
+    lookalikes: BECH32_LOOKALIKES,
+    searchModes: ['anywhere', 'start', 'end', 'position'],
+    addressTypes: ['eoa']
+  },
+  p2tr: {
+    chain: 'bitcoin',
+    alphabet: BECH32_ALPHABET,
+    characterName: 'bech32 character',
+    prefix: 'bc1p',
+    length: 58,
+    caseMode: 'native',
+    lookalikes: BECH32_LOOKALIKES,
+    searchModes: ['anywhere', 'start', 'end', 'position'],
+    addressTypes: ['eoa']
+  }
+};
+
+/**
+ * Gets the address format of the configured chain (Ethereum by default)
+ *
+ * Bitcoin has one format per address encoding, native SegWit by default.
+ */
+export function getAddressFormat(config: Pick<GeneratorConfig, 'chain' | 'bitcoinFormat'> = {}): AddressFormat {
+  const chain = config.chain ?? 'ethereum';
+  return chain === 'bitcoin' ? BITCOIN_ADDRESS_FORMATS[config.bitcoinFormat ?? 'p2wpkh'] : ADDRESS_FORMATS[chain];
+}
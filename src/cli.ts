@@ -1,9 +1,144 @@
-import { Command } from 'commander';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import { checksumAddress, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { Command, CommanderError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
+import { getBenchmark, getCalibratedSpeed, getProfilePath, loadProfile, runBenchmark, saveBenchmark } from './benchmark.js';
+import { BITCOIN_FORMATS, CHAINS, getAddressFormat } from './chains.js';
 import { VanityGenerator } from './generator.js';
-import { estimateDifficulty, formatNumber, formatTime, getSearchDescription } from './utils.js';
-import type { CLIOptions, GeneratorConfig, SearchMode, PerformanceStats, VanityAddressResult } from './types.js';
+import { decryptKeystore, encryptKeystore, writeKeystore } from './keystore.js';
+import { writeRecord } from './output.js';
+import { resolvePassword, waitForEnter } from './password.js';
+import { createSecretOutput, type SecretOutput } from './secretoutput.js';
+import { hasSecret, redactSecret } from './secrets.js';
+import { MAX_SHARES, recoverKey, splitResultKey, writeShare } from './shamir.js';
+import { createSmartAccountMiner, DEFAULT_SMART_ACCOUNT_VERSIONS, isSmartAccountType, SMART_ACCOUNT_VERSIONS } from './smartaccount.js';
+import { writeSolanaKeypair } from './solana.js';
+import { combineAndVerify, generateSplitKeySecret } from './splitkey.js';
+import {
+  CONFIDENCE_LEVELS,
+  DEFAULT_DERIVATION_PATH,
+  DEFAULT_MAX_WORKER_ERRORS,
+  estimateDifficulty,
+  getAttemptsForConfidence,
+  getConfigWarnings,
+  formatNumber,
+  formatTime,
+  getAttemptUnit,
+  getCandidatesPerAttempt,
+  getRelativeAttemptCost,
+  getScoreLabel,
+  getSearchDescription,
+  getSuccessProbability,
+  getTargets,
+  validateConfig,
+  validateHash
+} from './utils.js';
+import { deriveAddress, getRecordedSearch, verifyResult } from './verify.js';
+import type {
+  AddressType,
+  BitcoinFormat,
+  BudgetReport,
+  BenchmarkProfile,
+  ChainId,
+  CLIOptions,
+  DifficultyEstimate,
+  GeneratorConfig,
+  JsonReport,
+  KeyShare,
+  KeystoreKdf,
+  KeystoreV3,
+  OutputFormat,
+  OutputRecord,
+  PasswordOptions,
+  SearchMode,
+  PerformanceStats,
+  RunSummary,
+  ScoreRule,
+  SecretOptions,
+  ShareScheme,
+  SplitKeySecret,
+  VanityAddressResult,
+  VerificationReport,
+  WorkerRestart
+} from './types.js';
+
+/**
+ * Process exit codes, the same in every output format
+ */
+export const EXIT_CODES = {
+  /** Every target found, or the score budget used up */
+  success: 0,
+  /** Failure while running */
+  error: 1,
+  /** Invalid arguments or configuration */
+  usage: 2,
+  /** Time or attempt budget used up before every target was found */
+  budget: 3,
+  /** Stopped by SIGINT/SIGTERM before completing */
+  interrupted: 130
+} as const;
+
+/**
+ * File keys are written to when no other destination is given
+ */
+const DEFAULT_OUTPUT_FILE = 'v4n1ty-results.jsonl';
+
+/**
+ * Options for the benchmark command
+ */
+interface BenchmarkOptions {
+  chain: string;
+  bitcoinFormat?: string;
+  type: string;
+  nonces?: number;
+  accounts?: number;
+  workers?: string;
+  duration: number;
+  save: boolean;
+  json?: boolean;
+  ndjson?: boolean;
+}
+
+/**
+ * Options for the combine command
+ */
+interface CombineOptions extends SecretOptions {
+  secretFile: string;
+  partialKey: string;
+  expect?: string;
+  keystore?: string;
+  kdf: string;
+}
+
+/**
+ * Options for the recover command
+ */
+interface RecoverOptions extends PasswordOptions, SecretOptions {
+  expect?: string;
+  keystore?: string;
+  kdf: string;
+}
+
+/**
+ * Options for the verify command
+ */
+interface VerifyOptions extends PasswordOptions {
+  address?: string;
+  mode?: string;
+  position?: number;
+  caseSensitive: boolean;
+  chain: string;
+  bitcoinFormat?: string;
+  deployer?: string;
+  initCodeHash?: string;
+  passphrase?: string;
+  publicKey?: string;
+  json?: boolean;
+  ndjson?: boolean;
+}
 
 /**
  * CLI interface for the vanity address generator
@@ -12,6 +147,18 @@ export class CLI {
   private program: Command;
   private spinner?: ReturnType<typeof ora>;
   private generator?: VanityGenerator;
+  private secretOutput?: SecretOutput;
+  private reveal = false;
+  private keystoreOutput?: { directory: string; kdf: KeystoreKdf; password: string };
+  private keypairDirectory?: string;
+  private shareScheme?: ShareScheme;
+  private sharesDirectory?: string;
+  private shareDisplay: Promise<void> = Promise.resolve();
+  private showingShares = false;
+  private format: OutputFormat = 'text';
+  private report: JsonReport = {};
+  private profile?: BenchmarkProfile;
+  private runEstimate?: DifficultyEstimate;
 
   constructor() {
     this.program = new Command();
@@ -24,16 +171,35 @@ export class CLI {
   private setupCommands(): void {
     this.program
       .name('v4n1ty')
-      .description('Multi-threaded Ethereum vanity address generator')
+      .description('Multi-threaded vanity address generator for Ethereum, Solana, Tron and Bitcoin')
       .version('1.0.0')
-      .argument('<target>', 'Target string to search for (hexadecimal, no 0x prefix)')
-      .option('-m, --mode <mode>', 'Search mode: anywhere, start, end, position', 'start')
-      .option('-p, --position <number>', 'Position for position mode (0-indexed)', parseInt)
-      .option('-c, --case-sensitive', 'Case sensitive search', false)
-      .option('-w, --workers <number>', 'Number of worker threads', parseInt)
-      .option('-v, --verbose', 'Verbose output', false)
+      .enablePositionalOptions()
+      .exitOverride();
+
+    this.addSearchOptions(this.program)
+      .option('--chain <chain>', `Chain: ${CHAINS.join(', ')}`, 'ethereum')
+      .option('--bitcoin-format <format>', `Bitcoin address format: ${BITCOIN_FORMATS.join(', ')} (default: p2wpkh)`)
+      .option('-t, --type <type>', 'Address type: eoa, create, create2, mnemonic, safe, simple-account', 'eoa')
+      .option('-n, --nonces <number>', 'Number of deployer nonces to check for create type', parseInt)
+      .option('--deployer <address>', 'Deployer (factory) address for create2 type')
+      .option('--init-code-hash <hash>', 'Keccak-256 hash of the contract init code for create2 type')
+      .option('--owners <list>', 'Comma-separated owner addresses for safe and simple-account types')
+      .option('--threshold <number>', 'Owner confirmations a safe requires (default: 1)', parseInt)
+      .option('--account-version <version>', `Safe release (${SMART_ACCOUNT_VERSIONS.safe.join(', ')}) or SimpleAccount EntryPoint version (${SMART_ACCOUNT_VERSIONS['simple-account'].join(', ')})`)
+      .option('--factory <address>', 'Factory to deploy through instead of the canonical one for safe and simple-account types')
+      .option('--singleton <address>', 'Safe singleton or SimpleAccount implementation instead of the canonical one')
+      .option('--words <number>', 'Number of BIP-39 mnemonic words for mnemonic type: 12, 24', '12')
+      .option('--passphrase <passphrase>', 'Optional BIP-39 passphrase for mnemonic type')
+      .option('--path <template>', 'Derivation path template for mnemonic type', DEFAULT_DERIVATION_PATH)
+      .option('--accounts <number>', 'Number of {index} values to scan per mnemonic', parseInt)
+      .option('--keystore <dir>', 'Write each found key into a directory (Ethereum: encrypted V3 keystore, Solana: CLI keypair file; not Tron or Bitcoin)')
+      .option('--kdf <kdf>', 'Keystore key derivation function: scrypt, pbkdf2', 'scrypt')
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file')
+      .option('--split <M-of-N>', `Split each found key into Shamir shares, any M of which recover it (eoa type, not Solana; N up to ${MAX_SHARES})`)
+      .option('--shares-dir <dir>', 'Write each share to its own file instead of showing them one at a time ({index} in the path gives each share its own directory)')
       .option('--no-color', 'Disable colored output')
-      .action((target: string, options: CLIOptions) => {
+      .action((target: string | undefined, options: CLIOptions) => {
         this.run(target, options);
       });
 
@@ -41,11 +207,157 @@ export class CLI {
       .command('estimate')
       .description('Estimate difficulty and time for finding a vanity address')
       .argument('<target>', 'Target string to search for')
-      .option('-m, --mode <mode>', 'Search mode: anywhere, start, end, position', 'start')
+      .option('-m, --mode <mode>', 'Search mode: anywhere, start, end, position, pattern', 'start')
+      .option('-p, --position <number>', 'Position for position mode (0-indexed)', parseInt)
       .option('-c, --case-sensitive', 'Case sensitive search', false)
-      .action((target: string, options: Omit<CLIOptions, 'workers' | 'verbose'>) => {
+      .option('--chain <chain>', `Chain: ${CHAINS.join(', ')}`, 'ethereum')
+      .option('--bitcoin-format <format>', `Bitcoin address format: ${BITCOIN_FORMATS.join(', ')} (default: p2wpkh)`)
+      .option('-t, --type <type>', 'Address type: eoa, create, create2, mnemonic, safe, simple-account', 'eoa')
+      .option('-n, --nonces <number>', 'Number of deployer nonces to check for create type', parseInt)
+      .option('--accounts <number>', 'Number of {index} values to scan per mnemonic', parseInt)
+      .option('-w, --workers <number>', 'Number of worker threads to estimate for (default: benchmarked optimum)', parseInt)
+      .option('--json', 'Print the estimate as a JSON document', false)
+      .option('--ndjson', 'Print the estimate as a newline-delimited JSON record', false)
+      .action((target: string, options: Omit<CLIOptions, 'verbose'>) => {
         this.estimate(target, options);
       });
+
+    this.program
+      .command('benchmark')
+      .description('Measure throughput for a range of worker counts and save it for estimates')
+      .option('--chain <chain>', `Chain: ${CHAINS.join(', ')}`, 'ethereum')
+      .option('--bitcoin-format <format>', `Bitcoin address format: ${BITCOIN_FORMATS.join(', ')} (default: p2wpkh)`)
+      .option('-t, --type <type>', 'Address type: eoa, create, create2, mnemonic, safe, simple-account', 'eoa')
+      .option('-n, --nonces <number>', 'Number of deployer nonces to check for create type', parseInt)
+      .option('--accounts <number>', 'Number of {index} values to scan per mnemonic', parseInt)
+      .option('-w, --workers <list>', 'Comma-separated worker counts to try (default: powers of two up to the CPU count)')
+      .option('-d, --duration <seconds>', 'Seconds to measure each worker count', parseFloat, 5)
+      .option('--no-save', `Do not save the result to the profile (${getProfilePath()})`)
+      .option('--json', 'Print the benchmark as a JSON document', false)
+      .option('--ndjson', 'Print the benchmark as a newline-delimited JSON record', false)
+      .action((options: BenchmarkOptions) => this.benchmark(options));
+
+    this.program
+      .command('decrypt')
+      .description('Decrypt a V3 keystore and verify it derives the address it claims')
+      .argument('<keystore>', 'Path of the keystore file')
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file')
+      .option('--reveal', 'Print the decrypted private key', false)
+      .action((file: string, options: PasswordOptions & { reveal: boolean }) => this.decrypt(file, options));
+
+    this.program
+      .command('import')
+      .description('Encrypt a private key into a V3 keystore and verify it round-trips')
+      .argument('[privateKey]', 'Private key to import (0x-prefixed hex)')
+      .option('--key-file <path>', 'Read the private key from a file instead of the command line')
+      .option('--out <dir>', 'Directory to write the keystore into', '.')
+      .option('--kdf <kdf>', 'Key derivation function: scrypt, pbkdf2', 'scrypt')
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file')
+      .action((privateKey: string | undefined, options: PasswordOptions & { keyFile?: string; out: string; kdf: string }) =>
+        this.importKey(privateKey, options)
+      );
+
+    this.program
+      .command('verify')
+      .description('Check offline that a key derives its address and that the address satisfies the search')
+      .argument('<input>', 'Private key (hex, or WIF for bitcoin), or a file holding one, a keystore, a Solana keypair or results')
+      .argument('[target]', 'Target the address was searched for (default: the target recorded in a results file)')
+      .option('--address <address>', 'Address the key is claimed to derive (default: the keystore\'s, or derived from the key)')
+      .option('-m, --mode <mode>', 'Search mode: anywhere, start, end, position, pattern (default: as recorded in a results file, else start)')
+      .option('-p, --position <number>', 'Position for position mode (0-indexed)', parseInt)
+      .option('-c, --case-sensitive', 'Case sensitive search', false)
+      .option('--chain <chain>', `Chain: ${CHAINS.join(', ')}`, 'ethereum')
+      .option('--bitcoin-format <format>', `Bitcoin address format: ${BITCOIN_FORMATS.join(', ')} (default: p2wpkh)`)
+      .option('--deployer <address>', 'Deployer (factory) address for create2 results')
+      .option('--init-code-hash <hash>', 'Keccak-256 hash of the contract init code for create2 results')
+      .option('--passphrase <passphrase>', 'BIP-39 passphrase for mnemonic results')
+      .option('--public-key <hex>', "Requester's public key for split-key results")
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file')
+      .option('--json', 'Print the verification as a JSON document', false)
+      .option('--ndjson', 'Print each verification as a newline-delimited JSON record', false)
+      .action((input: string, target: string | undefined, options: VerifyOptions) => this.verify(input, target, options));
+
+    const splitKey = this.program
+      .command('split-key')
+      .description('Trustless split-key generation: search on an untrusted machine without revealing the key');
+
+    splitKey
+      .command('init')
+      .description('Requester: generate a secret and the public key to hand to the search node')
+      .option('--out <file>', 'File to write the secret to', 'split-key-secret.json')
+      .action((options: { out: string }) => this.splitKeyInit(options));
+
+    this.addSearchOptions(splitKey.command('search'))
+      .description('Search node: find a partial key that combines with a public key into a vanity address')
+      .requiredOption('--public-key <hex>', "Requester's public key from split-key init")
+      .action((target: string | undefined, options: CLIOptions) => {
+        this.run(target, { ...options, type: 'split-key' });
+      });
+
+    const combine = this.program
+      .command('combine')
+      .description('Requester: add a partial key to your secret and verify the resulting address')
+      .requiredOption('--secret-file <path>', 'Secret file written by split-key init')
+      .requiredOption('--partial-key <hex>', 'Partial key returned by the search node')
+      .option('--expect <address>', 'Address the search node reported, to verify against')
+      .option('--keystore <dir>', 'Write the combined key as an encrypted V3 keystore')
+      .option('--kdf <kdf>', 'Keystore key derivation function: scrypt, pbkdf2', 'scrypt')
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file');
+    this.addSecretOptions(combine)
+      .action((options: PasswordOptions & CombineOptions) => this.combine(options));
+
+    const recover = this.program
+      .command('recover')
+      .description('Rebuild a key from Shamir shares and verify it derives the address they record')
+      .argument('<shares...>', 'Share files written by --split, or shares as shown on the terminal (JSON)')
+      .option('--expect <address>', 'Address the key should control, to verify against')
+      .option('--keystore <dir>', 'Write the recovered key as an encrypted V3 keystore (Ethereum only)')
+      .option('--kdf <kdf>', 'Keystore key derivation function: scrypt, pbkdf2', 'scrypt')
+      .option('--password-env <name>', 'Read the keystore password from an environment variable')
+      .option('--password-file <path>', 'Read the keystore password from a file');
+    this.addSecretOptions(recover)
+      .action((shares: string[], options: RecoverOptions) => this.recover(shares, options));
+  }
+
+  /**
+   * Adds the target and matching options shared by every search command
+   */
+  private addSearchOptions(command: Command): Command {
+    command
+      .argument('[target]', 'Target string to search for (hexadecimal, no 0x prefix)')
+      .option('--targets <list>', 'Comma-separated list of targets to search for at once')
+      .option('--targets-file <path>', 'File with one target per line to search for at once')
+      .option('-m, --mode <mode>', 'Search mode: anywhere, start, end, position, pattern, score', 'start')
+      .option('-p, --position <number>', 'Position for position mode (0-indexed)', parseInt)
+      .option('-c, --case-sensitive', 'Case sensitive search', false)
+      .option('-w, --workers <number>', 'Number of worker threads', parseInt)
+      .option('--score-rule <rule>', 'Score rule for score mode: leading-zeros, zero-bytes, expression')
+      .option('--score-expression <expr>', 'Custom score expression for score mode, e.g. "leadingZeroBytes * 10 + zeroBytes"')
+      .option('--top <number>', 'Number of best results to keep in score mode', parseInt)
+      .option('--max-time <seconds>', 'Stop after this many seconds', parseFloat)
+      .option('--max-attempts <number>', 'Stop after this many attempts', parseInt)
+      .option('--max-worker-errors <number>', `Worker crashes to tolerate, restarting each crashed worker, before the run fails (default: ${DEFAULT_MAX_WORKER_ERRORS})`, parseInt)
+      .option('--count <number>', 'Number of matches to collect per target', parseInt)
+      .option('--continuous', 'Keep collecting matches until stopped', false)
+      .option('--json', 'Print a single JSON report on stdout when the run ends', false)
+      .option('--ndjson', 'Stream newline-delimited JSON records on stdout', false)
+      .option('-v, --verbose', 'Verbose output', false);
+    return this.addSecretOptions(command);
+  }
+
+  /**
+   * Adds the options that decide where keys are written
+   */
+  private addSecretOptions(command: Command): Command {
+    return command
+      .option('-o, --output <file>', `Append each result to a file as newline-delimited JSON, readable by the owner only (default for keys: ${DEFAULT_OUTPUT_FILE})`)
+      .option('--secrets-command <cmd>', 'Pipe each result to a shell command on stdin (its address is in V4N1TY_ADDRESS)')
+      .option('--recipient <key>', 'Encrypt each result written to an age recipient (age1...), or a file of age recipients or an armored PGP public key')
+      .option('--reveal', 'Print private keys, mnemonics and WIFs on stdout', false);
   }
 
   /**
@@ -55,66 +367,141 @@ export class CLI {
     try {
       await this.program.parseAsync(args);
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      // Commander has already printed its own message (or the help text)
+      if (error instanceof CommanderError) {
+        process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.usage);
+      }
+      this.fail(error);
     }
   }
 
   /**
    * Main run command
    */
-  private async run(target: string, options: CLIOptions): Promise<void> {
+  private async run(target: string | undefined, options: CLIOptions): Promise<void> {
+    let config: GeneratorConfig;
+    
     try {
-      const config = this.buildConfig(target, options);
+      this.setOutputFormat(options);
+      config = this.buildConfig(target, options);
       
+      if (options.split) {
+        if ((config.addressType ?? 'eoa') !== 'eoa' || config.chain === 'solana') {
+          throw new Error('--split only supports eoa addresses on Ethereum, Tron and Bitcoin');
+        }
+        if (options.keystore || options.reveal) {
+          throw new Error(`--split cannot be combined with --${options.keystore ? 'keystore' : 'reveal'}, which keeps the key whole`);
+        }
+        if (!options.sharesDir && (this.format !== 'text' || !process.stdin.isTTY || !process.stdout.isTTY)) {
+          throw new Error('--split needs --shares-dir when there is no terminal to show the shares on');
+        }
+        this.shareScheme = this.validateShareScheme(options.split);
+        this.sharesDirectory = options.sharesDir;
+      } else if (options.sharesDir) {
+        throw new Error('--shares-dir needs --split');
+      }
+      if (options.keystore && (config.chain === 'tron' || config.chain === 'bitcoin')) {
+        const key = config.chain === 'bitcoin' ? 'WIF' : 'private key';
+        throw new Error(`--keystore is not supported for ${config.chain} addresses; import the ${key} into a wallet instead`);
+      }
+      if (options.keystore && config.chain === 'solana') {
+        // Solana CLI keypair files are plaintext, so there is no password to ask for
+        this.keypairDirectory = options.keystore;
+      } else if (options.keystore) {
+        const kdf = this.validateKdf(options.kdf ?? 'scrypt');
+        const password = await resolvePassword(options, true);
+        this.keystoreOutput = { directory: options.keystore, kdf, password };
+      }
+      this.reveal = options.reveal ?? false;
+      // Split keys are never written whole, so they need no other destination
+      const needsDestination = !this.shareScheme && this.needsSecretDestination(config, options.keystore);
+      this.secretOutput = await this.openSecretOutput(options, needsDestination);
+      
+      // Setup generator (validates the configuration)
+      this.generator = new VanityGenerator(config);
+    } catch (error) {
+      this.fail(error, EXIT_CODES.usage);
+    }
+    
+    try {
       // Show configuration
       this.showConfiguration(config);
       
       // Show difficulty estimate
       this.showDifficultyEstimate(config);
       
-      // Setup generator
-      this.generator = new VanityGenerator(config);
       this.setupGeneratorEvents();
       
       // Setup graceful shutdown
       this.setupGracefulShutdown();
       
       // Start generation
-      console.log(chalk.yellow('\n🔍 Starting vanity address generation...'));
-      console.log(chalk.gray('Press Ctrl+C to stop\n'));
+      if (this.format === 'text') {
+        console.log(chalk.yellow('\n🔍 Starting vanity address generation...'));
+        console.log(chalk.gray('Press Ctrl+C to stop\n'));
+      }
       
       this.generator.start();
       
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      this.fail(error);
     }
   }
 
   /**
    * Estimate command
    */
-  private estimate(target: string, options: Omit<CLIOptions, 'workers' | 'verbose'>): void {
+  private estimate(target: string, options: Omit<CLIOptions, 'verbose'>): void {
     try {
+      this.setOutputFormat(options);
       const mode = this.validateSearchMode(options.mode);
-      const { difficulty, description } = estimateDifficulty(target, mode, options.caseSensitive);
+      if (mode === 'score') {
+        throw new Error('Score mode has no target to estimate; use --max-time or --max-attempts to bound it');
+      }
+      const chain = this.validateChain(options.chain ?? 'ethereum');
+      const bitcoinFormat = this.validateBitcoinFormat(options.bitcoinFormat, chain);
+      const addressType = this.validateAddressType(options.type);
+      const estimate = this.buildEstimate(target, {
+        searchMode: mode,
+        position: options.position,
+        caseSensitive: options.caseSensitive,
+        chain,
+        bitcoinFormat,
+        addressType,
+        nonceCount: options.nonces,
+        accountCount: options.accounts,
+        numWorkers: options.workers
+      });
+      
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'estimate', estimate });
+        this.exit(EXIT_CODES.success);
+      }
       
       console.log(chalk.cyan('\n🎯 Vanity Address Difficulty Estimate'));
       console.log(chalk.gray('='.repeat(50)));
       console.log(`Target: ${chalk.yellow(target)}`);
       console.log(`Mode: ${chalk.yellow(mode)}`);
       console.log(`Case Sensitive: ${chalk.yellow(options.caseSensitive ? 'Yes' : 'No')}`);
-      console.log(`Difficulty: ${chalk.yellow(description)}`);
-      
-      // Estimate time based on typical performance
-      const estimatedSpeed = 50000; // addresses per second (conservative estimate)
-      const estimatedSeconds = difficulty / estimatedSpeed;
+      console.log(`Chain: ${chalk.yellow(chain)}`);
+      if (bitcoinFormat) {
+        console.log(`Bitcoin Format: ${chalk.yellow(bitcoinFormat)}`);
+      }
+      console.log(`Address Type: ${chalk.yellow(addressType)}`);
+      if (estimate.candidatesPerAttempt > 1) {
+        console.log(`Candidates per Attempt: ${chalk.yellow(estimate.candidatesPerAttempt)}`);
+      }
+      console.log(`Difficulty: ${chalk.yellow(estimate.description)}`);
+      console.log(`Expected Attempts: ${chalk.yellow(formatNumber(Math.round(estimate.difficulty)))}`);
       
-      console.log(`\n⏱️  Estimated time (at ~${formatNumber(estimatedSpeed)} addr/s):`);
-      console.log(`   ${chalk.green(formatTime(estimatedSeconds))}`);
+      const source = estimate.speedSource === 'benchmark' ? 'benchmarked' : 'default; run "v4n1ty benchmark" to calibrate';
+      console.log(`\n⏱️  Estimated time (at ~${formatNumber(Math.round(estimate.estimatedSpeed))} ${getAttemptUnit({ addressType })}/s, ${source}):`);
+      console.log(`   Expected: ${chalk.green(formatTime(estimate.estimatedSeconds))}`);
+      for (const { confidence, attempts, seconds } of estimate.successCurve) {
+        console.log(`   ${this.formatConfidence(confidence)} chance: ${chalk.green(formatTime(seconds))} ${chalk.gray(`(${formatNumber(Math.round(attempts))} attempts)`)}`);
+      }
       
-      if (estimatedSeconds > 3600) {
+      if (estimate.estimatedSeconds > 3600) {
         console.log(chalk.yellow('\n⚠️  This may take a very long time. Consider:'));
         console.log('   • Using a shorter target string');
         console.log('   • Using "anywhere" mode instead of "start" or "end"');
@@ -122,63 +509,923 @@ export class CLI {
       }
       
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      this.fail(error, EXIT_CODES.usage);
     }
   }
 
+  /**
+   * Estimates difficulty and time for a target
+   *
+   * Uses the benchmarked speed for the worker count when the profile has one
+   * for this address type, and a conservative default otherwise.
+   */
+  private buildEstimate(
+    target: string,
+    config: Pick<GeneratorConfig, 'searchMode' | 'caseSensitive' | 'chain' | 'bitcoinFormat' | 'addressType' | 'nonceCount' | 'accountCount'> &
+      Partial<Pick<GeneratorConfig, 'numWorkers' | 'position'>>
+  ): DifficultyEstimate {
+    const candidatesPerAttempt = getCandidatesPerAttempt(config);
+    const { probability, difficulty, description } = estimateDifficulty(
+      target,
+      config.searchMode,
+      config.caseSensitive,
+      candidatesPerAttempt,
+      getAddressFormat(config),
+      config.position
+    );
+    const benchmark = getBenchmark(this.getProfile(), config);
+    const estimatedSpeed = benchmark
+      ? getCalibratedSpeed(benchmark, config.numWorkers)
+      : 50000 / getRelativeAttemptCost(config);
+    
+    return {
+      target,
+      mode: config.searchMode,
+      caseSensitive: config.caseSensitive,
+      chain: config.chain ?? 'ethereum',
+      bitcoinFormat: config.bitcoinFormat,
+      addressType: config.addressType ?? 'eoa',
+      candidatesPerAttempt,
+      probability,
+      difficulty,
+      description,
+      estimatedSpeed,
+      speedSource: benchmark ? 'benchmark' : 'default',
+      estimatedSeconds: difficulty / estimatedSpeed,
+      successCurve: CONFIDENCE_LEVELS.map(confidence => {
+        const attempts = getAttemptsForConfidence(probability, confidence);
+        return { confidence, attempts, seconds: attempts / estimatedSpeed };
+      })
+    };
+  }
+
+  /**
+   * Benchmark command
+   */
+  private async benchmark(options: BenchmarkOptions): Promise<void> {
+    let config: GeneratorConfig;
+    let workerCounts: number[];
+    
+    try {
+      this.setOutputFormat(options);
+      const chain = this.validateChain(options.chain);
+      const bitcoinFormat = this.validateBitcoinFormat(options.bitcoinFormat, chain);
+      const addressType = this.validateAddressType(options.type);
+      workerCounts = options.workers ? this.parseWorkerCounts(options.workers) : this.getDefaultWorkerCounts();
+      if (!(options.duration > 0)) {
+        throw new Error(`Invalid duration: ${options.duration}. Must be a positive number of seconds`);
+      }
+      
+      // A target that will never match; the placeholder deployer, hash,
+      // owner and public key do not affect speed
+      const format = getAddressFormat({ chain, bitcoinFormat });
+      config = {
+        target: format.alphabet[0]!.repeat(format.length),
+        searchMode: 'start',
+        caseSensitive: false,
+        numWorkers: 1,
+        chain,
+        bitcoinFormat,
+        addressType,
+        nonceCount: options.nonces,
+        accountCount: options.accounts,
+        deployer: `0x${'0'.repeat(40)}`,
+        initCodeHash: `0x${'0'.repeat(64)}`,
+        owners: [`0x${'0'.repeat(39)}1`],
+        publicKey: addressType === 'split-key' ? generateSplitKeySecret().publicKey : undefined
+      };
+    } catch (error) {
+      this.fail(error, EXIT_CODES.usage);
+    }
+    
+    try {
+      const unit = getAttemptUnit(config);
+      if (this.format === 'text') {
+        console.log(chalk.cyan(`\n⏱️  Benchmarking ${config.bitcoinFormat ?? config.chain} ${config.addressType} with ${workerCounts.join(', ')} workers (${options.duration}s each)`));
+        console.log(chalk.gray('='.repeat(50)));
+        this.spinner = ora(`Measuring ${this.pluralizeWorkers(workerCounts[0]!)}...`).start();
+      }
+      
+      const result = await runBenchmark(config, workerCounts, options.duration, (workers, speed) => {
+        if (this.spinner) {
+          this.spinner.stop();
+          console.log(`${chalk.cyan(`${this.pluralizeWorkers(workers)}:`)} ${chalk.yellow(`${formatNumber(Math.round(speed))} ${unit}/s`)}`);
+          const next = workerCounts[workerCounts.indexOf(workers) + 1];
+          if (next !== undefined) {
+            this.spinner.start(`Measuring ${this.pluralizeWorkers(next)}...`);
+          }
+        }
+      });
+      const profilePath = options.save ? saveBenchmark(result) : undefined;
+      this.profile = undefined;
+      
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'benchmark', benchmark: result, profile: profilePath });
+        this.exit(EXIT_CODES.success);
+      }
+      
+      console.log(chalk.green(`\n✅ Optimal: ${this.pluralizeWorkers(result.optimalWorkers)} at ${formatNumber(Math.round(result.speed))} ${unit}/s`));
+      if (profilePath) {
+        console.log(chalk.gray(`Saved to ${profilePath}; estimates and default worker counts now use it`));
+      }
+      this.exit(EXIT_CODES.success);
+      
+    } catch (error) {
+      this.spinner?.fail('Benchmark failed');
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Parses a comma-separated list of worker counts
+   */
+  private parseWorkerCounts(list: string): number[] {
+    const counts = list.split(',').map(count => Number(count.trim()));
+    const invalid = counts.find(count => !Number.isInteger(count) || count < 1);
+    if (invalid !== undefined) {
+      throw new Error(`Invalid worker count: ${invalid}. Must be a positive integer`);
+    }
+    return [...new Set(counts)];
+  }
+
+  /**
+   * Gets the worker counts to benchmark by default: powers of two up to the CPU count
+   */
+  private getDefaultWorkerCounts(): number[] {
+    const cpus = this.getCpuCount();
+    const counts: number[] = [];
+    for (let count = 1; count < cpus; count *= 2) {
+      counts.push(count);
+    }
+    counts.push(cpus);
+    return counts;
+  }
+
+  /**
+   * Formats a probability as a percentage, e.g. "90%" or "63.2%"
+   */
+  private formatConfidence(probability: number): string {
+    const percent = probability * 100;
+    return `${Number.isInteger(percent) ? percent : percent.toFixed(1)}%`;
+  }
+
+  /**
+   * Formats a worker count, e.g. "1 worker" or "4 workers"
+   */
+  private pluralizeWorkers(count: number): string {
+    return `${count} worker${count === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Gets the number of logical CPUs
+   */
+  private getCpuCount(): number {
+    return os.availableParallelism?.() ?? os.cpus().length;
+  }
+
+  /**
+   * Gets the calibration profile, loading it on first use
+   */
+  private getProfile(): BenchmarkProfile {
+    this.profile ??= loadProfile();
+    return this.profile;
+  }
+
+  /**
+   * Decrypt command
+   */
+  private async decrypt(file: string, options: PasswordOptions & { reveal: boolean }): Promise<void> {
+    try {
+      const keystore: KeystoreV3 = JSON.parse(readFileSync(file, 'utf8'));
+      const password = await resolvePassword(options);
+      const privateKey = decryptKeystore(keystore, password);
+      const address = privateKeyToAccount(privateKey).address;
+      
+      if (address.slice(2).toLowerCase() !== keystore.address.toLowerCase()) {
+        throw new Error(`Keystore claims address 0x${keystore.address} but its key derives ${address}`);
+      }
+      
+      console.log(chalk.green('\n✅ Keystore decrypted and verified'));
+      console.log(`${chalk.cyan('Address:')} ${chalk.yellow(address)}`);
+      if (options.reveal) {
+        console.log(`${chalk.cyan('Private Key:')} ${chalk.yellow(privateKey)}`);
+      }
+      
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Import command
+   */
+  private async importKey(
+    privateKey: string | undefined,
+    options: PasswordOptions & { keyFile?: string; out: string; kdf: string }
+  ): Promise<void> {
+    try {
+      const key = (options.keyFile ? readFileSync(options.keyFile, 'utf8') : privateKey ?? '').trim();
+      if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+        throw new Error('Private key must be 0x-prefixed 32-byte hex (pass it as an argument or with --key-file)');
+      }
+      
+      const kdf = this.validateKdf(options.kdf);
+      const password = await resolvePassword(options, true);
+      const keystore = encryptKeystore(key as Hex, password, kdf);
+      
+      // Round-trip before writing so a broken keystore is never left behind
+      if (decryptKeystore(keystore, password) !== key.toLowerCase()) {
+        throw new Error('Keystore round-trip failed: decrypted key does not match');
+      }
+      
+      const path = writeKeystore(options.out, keystore);
+      console.log(chalk.green('\n✅ Keystore written and verified'));
+      console.log(`${chalk.cyan('Address:')} ${chalk.yellow(privateKeyToAccount(key as Hex).address)}`);
+      console.log(`${chalk.cyan('Keystore:')} ${chalk.yellow(path)}`);
+      
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Split-key init command
+   */
+  private splitKeyInit(options: { out: string }): void {
+    try {
+      const secret = generateSplitKeySecret();
+      writeFileSync(options.out, JSON.stringify(secret, null, 2) + '\n', { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+      
+      console.log(chalk.green('\n🔑 Split-key secret generated'));
+      console.log(`${chalk.cyan('Secret File:')} ${chalk.yellow(options.out)}`);
+      console.log(`${chalk.cyan('Public Key:')} ${chalk.yellow(secret.publicKey)}`);
+      console.log(chalk.gray('\nShare only the public key with the search node:'));
+      console.log(chalk.gray(`  v4n1ty split-key search <target> --public-key ${secret.publicKey}`));
+      
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Combine command
+   */
+  private async combine(options: PasswordOptions & CombineOptions): Promise<void> {
+    try {
+      const secret: SplitKeySecret = JSON.parse(readFileSync(options.secretFile, 'utf8'));
+      if (!validateHash(options.partialKey)) {
+        throw new Error('Partial key must be 0x-prefixed 32-byte hex');
+      }
+      
+      const { privateKey, address } = combineAndVerify(secret.privateKey, options.partialKey as Hex, options.expect);
+      
+      console.log(chalk.green('\n✅ Split key combined'));
+      console.log(`${chalk.cyan('Address:')} ${chalk.yellow(address)}`);
+      if (options.expect) {
+        console.log(chalk.gray('Matches the address reported by the search node'));
+      }
+      
+      if (options.keystore) {
+        const kdf = this.validateKdf(options.kdf);
+        const password = await resolvePassword(options, true);
+        const path = writeKeystore(options.keystore, encryptKeystore(privateKey, password, kdf));
+        console.log(`${chalk.cyan('Keystore:')} ${chalk.yellow(path)}`);
+      }
+      
+      const output = await this.openSecretOutput(options, !options.keystore);
+      if (output) {
+        output.write({ address, privateKey });
+        await output.flush();
+        console.log(`${chalk.cyan('Private Key:')} ${chalk.gray(`written to ${output.description}`)}`);
+      }
+      if (options.reveal) {
+        console.log(`${chalk.cyan('Private Key:')} ${chalk.yellow(privateKey)}`);
+      }
+      
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Recover command
+   *
+   * Each share is read from its file, or taken as is when it is the JSON
+   * shown on the terminal.
+   */
+  private async recover(inputs: string[], options: RecoverOptions): Promise<void> {
+    try {
+      const shares: KeyShare[] = inputs.map(input => JSON.parse(input.trimStart().startsWith('{') ? input : readFileSync(input, 'utf8')));
+      const recovered = recoverKey(shares);
+      const { address } = recovered;
+      const { chain } = shares[0]!;
+      
+      if (options.expect) {
+        const matches = chain === 'ethereum' ? address.toLowerCase() === options.expect.toLowerCase() : address === options.expect;
+        if (!matches) {
+          throw new Error(`Shares recover the key for ${address}, expected ${options.expect}`);
+        }
+      }
+      if (options.keystore && chain !== 'ethereum') {
+        throw new Error(`--keystore is not supported for ${chain} addresses`);
+      }
+      
+      console.log(chalk.green(`\n✅ Key recovered from ${shares.length} of ${shares[0]!.shares} shares`));
+      console.log(`${chalk.cyan('Address:')} ${chalk.yellow(address)}`);
+      console.log(chalk.gray(options.expect ? 'Derives the address the shares record, as expected' : 'Derives the address the shares record'));
+      
+      if (options.keystore) {
+        const kdf = this.validateKdf(options.kdf);
+        const password = await resolvePassword(options, true);
+        const path = writeKeystore(options.keystore, encryptKeystore(recovered.privateKey as Hex, password, kdf));
+        console.log(`${chalk.cyan('Keystore:')} ${chalk.yellow(path)}`);
+      }
+      
+      const label = recovered.wif ? 'WIF:' : 'Private Key:';
+      const output = await this.openSecretOutput(options, !options.keystore);
+      if (output) {
+        output.write(recovered);
+        await output.flush();
+        console.log(`${chalk.cyan(label)} ${chalk.gray(`written to ${output.description}`)}`);
+      }
+      if (options.reveal) {
+        console.log(`${chalk.cyan(label)} ${chalk.yellow(recovered.wif ?? recovered.privateKey)}`);
+      }
+    
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Verify command
+   *
+   * Results from a results file are checked against the search they record
+   * unless a mode is given. Exits with the error code when any result fails
+   * a check.
+   */
+  private async verify(input: string, target: string | undefined, options: VerifyOptions): Promise<void> {
+    let checks: { result: VanityAddressResult; config: GeneratorConfig }[];
+    
+    try {
+      this.setOutputFormat(options);
+      const searchMode = this.validateSearchMode(options.mode ?? 'start');
+      if (searchMode === 'score') {
+        throw new Error('Score results have no target to verify');
+      }
+      const chain = this.validateChain(options.chain);
+      const config: GeneratorConfig = {
+        target: target ?? '',
+        searchMode,
+        position: options.position,
+        caseSensitive: options.caseSensitive,
+        numWorkers: 1,
+        chain,
+        bitcoinFormat: this.validateBitcoinFormat(options.bitcoinFormat, chain),
+        deployer: options.deployer,
+        initCodeHash: options.initCodeHash,
+        passphrase: options.passphrase,
+        publicKey: options.publicKey
+      };
+      
+      const results = await this.loadVerificationInput(input, config, options);
+      checks = results.map(result => {
+        const recorded = options.mode || !result.searchDescription ? undefined : getRecordedSearch(result);
+        const resultConfig = { ...config, ...recorded, target: result.target };
+        const errors = validateConfig(resultConfig);
+        if (errors.length > 0) {
+          throw new Error(`Configuration validation failed for ${result.address}:\n${errors.join('\n')}`);
+        }
+        return { result, config: resultConfig };
+      });
+    } catch (error) {
+      this.fail(error, EXIT_CODES.usage);
+    }
+    
+    const reports = checks.map(({ result, config }) => verifyResult(result, config));
+    const failed = reports.filter(report => !report.passed).length;
+    
+    if (this.format !== 'text') {
+      reports.forEach(report => this.emitRecord({ type: 'verification', report }));
+    } else {
+      reports.forEach(report => this.showVerification(report));
+      console.log(failed === 0
+        ? chalk.green(`\n✅ ${reports.length === 1 ? 'Result' : `All ${reports.length} results`} verified`)
+        : chalk.red(`\n❌ ${failed} of ${reports.length} ${reports.length === 1 ? 'result' : 'results'} failed verification`));
+    }
+    
+    this.exit(failed === 0 ? EXIT_CODES.success : EXIT_CODES.error);
+  }
+
+  /**
+   * Reads the results to verify from a key, keystore, Solana keypair or results file
+   *
+   * A results file keeps the targets it recorded unless a target is given.
+   * Anything else needs a target, and is checked against --address or, when
+   * that is absent, the address the key derives (or the keystore claims).
+   */
+  private async loadVerificationInput(
+    input: string,
+    config: GeneratorConfig,
+    options: VerifyOptions
+  ): Promise<VanityAddressResult[]> {
+    const content = existsSync(input) ? readFileSync(input, 'utf8').trim() : input.trim();
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) {
+      throw new Error(`Nothing to verify in ${input}`);
+    }
+    const parsed = lines.map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return undefined;
+      }
+    });
+    
+    if (parsed.every(record => record && typeof record.address === 'string' && !('crypto' in record))) {
+      // A results file written with --output
+      return (parsed as VanityAddressResult[]).map(result =>
+        config.target ? { ...result, target: config.target, searchDescription: '' } : result
+      );
+    }
+    
+    if (!config.target) {
+      throw new Error('Pass the target the address was searched for');
+    }
+    const secret = await this.parseVerificationSecret(content, config, options);
+    const result: VanityAddressResult = {
+      address: '',
+      target: config.target,
+      ...secret,
+      attempts: 0,
+      searchTime: 0,
+      searchDescription: ''
+    };
+    result.address = options.address ?? secret.address ?? deriveAddress(result, config) ?? '';
+    return [result];
+  }
+
+  /**
+   * Parses a single key, keystore or Solana keypair into the secret fields of a result
+   */
+  private async parseVerificationSecret(
+    content: string,
+    config: GeneratorConfig,
+    options: VerifyOptions
+  ): Promise<Partial<VanityAddressResult>> {
+    if (content.startsWith('{')) {
+      const keystore: KeystoreV3 = JSON.parse(content);
+      const privateKey = decryptKeystore(keystore, await resolvePassword(options));
+      return { address: checksumAddress(`0x${keystore.address}` as Address), privateKey };
+    }
+    
+    if (content.startsWith('[')) {
+      if (config.chain !== 'solana') {
+        throw new Error('Keypair files hold Solana keys; pass --chain solana');
+      }
+      return { keypair: JSON.parse(content) };
+    }
+    
+    switch (config.chain) {
+      case 'bitcoin':
+        return { wif: content };
+      case 'tron':
+      case 'ethereum':
+        if (!/^(0x)?[0-9a-fA-F]{64}$/.test(content)) {
+          throw new Error('Private key must be 32-byte hex');
+        }
+        return { privateKey: config.chain === 'tron' ? content.replace(/^0x/, '') : `0x${content.replace(/^0x/, '')}` };
+      default:
+        throw new Error('Solana keys are verified from their keypair file');
+    }
+  }
+
+  /**
+   * Shows the checks made for one verified result
+   */
+  private showVerification(report: VerificationReport): void {
+    console.log(`\n${chalk.cyan('Address:')} ${chalk.yellow(report.address)}`);
+    for (const check of report.checks) {
+      const mark = check.passed ? chalk.green('✅') : chalk.red('❌');
+      console.log(`   ${mark} ${check.name}: ${check.detail}`);
+    }
+  }
+
+  /**
+   * Selects text, JSON or NDJSON output from the --json and --ndjson flags
+   */
+  private setOutputFormat(options: { json?: boolean; ndjson?: boolean }): void {
+    if (options.json && options.ndjson) {
+      throw new Error('Use only one of --json and --ndjson');
+    }
+    this.format = options.json ? 'json' : options.ndjson ? 'ndjson' : 'text';
+  }
+
+  /**
+   * Emits a structured record in JSON or NDJSON mode
+   *
+   * NDJSON writes each record as its own line straight away; JSON collects
+   * them into a single report written when the command exits.
+   */
+  private emitRecord(record: OutputRecord): void {
+    if (this.format === 'ndjson') {
+      writeRecord(record);
+      return;
+    }
+    
+    switch (record.type) {
+      case 'config':
+        this.report.config = record.config;
+        break;
+      case 'warning':
+        (this.report.warnings ??= []).push(record.message);
+        break;
+      case 'estimate':
+        this.report.estimate = record.estimate;
+        break;
+      case 'benchmark':
+        this.report.benchmark = record.benchmark;
+        this.report.profile = record.profile;
+        break;
+      case 'result':
+        (this.report.results ??= []).push({ ...record.result, keystore: record.keystore, shares: record.shares });
+        break;
+      case 'budgetExhausted':
+        this.report.budget = { ...record.report, keystore: record.keystore };
+        break;
+      case 'workerRestarted':
+        (this.report.workerRestarts ??= []).push(record.restart);
+        break;
+      case 'completed':
+        this.report.summary = record.summary;
+        break;
+      case 'verification':
+        (this.report.verifications ??= []).push(record.report);
+        break;
+      case 'error':
+        this.report.error = { message: record.message, exitCode: record.exitCode };
+        break;
+    }
+  }
+
+  /**
+   * Exits the process, writing the JSON report first in JSON mode
+   */
+  private exit(code: number): never {
+    if (this.format === 'json') {
+      writeRecord(this.report);
+    }
+    process.exit(code);
+  }
+
+  /**
+   * Reports an error in the current output format and exits
+   */
+  private fail(error: unknown, exitCode: number = EXIT_CODES.error): never {
+    const message = error instanceof Error ? error.message : String(error);
+    
+    if (this.format === 'text') {
+      console.error(chalk.red('Error:'), message);
+    } else {
+      this.emitRecord({ type: 'error', message, exitCode });
+    }
+    
+    return this.exit(exitCode);
+  }
+
+  /**
+   * Exits once every queued result has been written and every queued share
+   * shown, so no key found by the run is lost, reporting an error first when
+   * there is one
+   */
+  private exitAfterSecrets(code: number, error?: unknown): void {
+    const pending = Promise.all([this.secretOutput?.flush(), this.shareDisplay]);
+    pending.then(
+      () => (error === undefined ? this.exit(code) : this.fail(error, code)),
+      writeError => this.fail(writeError)
+    );
+  }
+
+  /**
+   * Opens where results holding keys are written
+   *
+   * Keys only reach stdout with --reveal. Results go to the output file, the
+   * secrets command or both; when neither is given and keys need somewhere
+   * to go, they go to the default output file.
+   */
+  private async openSecretOutput(options: SecretOptions, needsDestination: boolean): Promise<SecretOutput | undefined> {
+    const useDefault = needsDestination && !options.secretsCommand && !options.reveal;
+    const file = options.output ?? (useDefault ? DEFAULT_OUTPUT_FILE : undefined);
+    if (!file && !options.secretsCommand) {
+      if (options.recipient) {
+        throw new Error('--recipient needs --output or --secrets-command to write the encrypted results to');
+      }
+      return undefined;
+    }
+    return createSecretOutput({ file, command: options.secretsCommand, recipient: options.recipient });
+  }
+
+  /**
+   * Checks whether a search finds keys that need somewhere to go besides a
+   * keystore directory
+   *
+   * Contract salts, smart account deployments and partial keys are not
+   * secret. Keystores hold Ethereum keys and Solana keypairs, but not
+   * mnemonics.
+   */
+  private needsSecretDestination(config: GeneratorConfig, keystore?: string): boolean {
+    const type = config.addressType ?? 'eoa';
+    if (type === 'create2' || type === 'split-key' || isSmartAccountType(type)) {
+      return false;
+    }
+    return !keystore || type === 'mnemonic';
+  }
+
   /**
    * Builds generator configuration from CLI options
    */
-  private buildConfig(target: string, options: CLIOptions): GeneratorConfig {
+  private buildConfig(target: string | undefined, options: CLIOptions): GeneratorConfig {
     const searchMode = this.validateSearchMode(options.mode);
+    const chain = this.validateChain(options.chain ?? 'ethereum');
+    const bitcoinFormat = this.validateBitcoinFormat(options.bitcoinFormat, chain);
+    const addressType = this.validateAddressType(options.type);
+    const typeConfig = { chain, bitcoinFormat, addressType, nonceCount: options.nonces, accountCount: options.accounts };
+    // Score mode ranks every address instead of matching a target
+    const targets = searchMode === 'score' ? [''] : this.collectTargets(target, options);
     
     return {
-      target,
+      target: targets[0]!,
+      targets: targets.length > 1 ? targets : undefined,
       searchMode,
       position: options.position,
       caseSensitive: options.caseSensitive,
-      numWorkers: options.workers || (globalThis as any).navigator?.hardwareConcurrency || 4
+      numWorkers: options.workers || getBenchmark(this.getProfile(), typeConfig)?.optimalWorkers || this.getCpuCount(),
+      chain,
+      bitcoinFormat,
+      addressType,
+      deployer: options.deployer,
+      initCodeHash: options.initCodeHash,
+      nonceCount: options.nonces,
+      mnemonicWords: addressType === 'mnemonic' ? this.validateMnemonicWords(options.words ?? '12') : undefined,
+      passphrase: options.passphrase,
+      derivationPath: options.path,
+      accountCount: options.accounts,
+      publicKey: options.publicKey,
+      owners: options.owners?.split(',').map(owner => owner.trim()).filter(owner => owner.length > 0),
+      threshold: options.threshold,
+      accountVersion: options.accountVersion,
+      factory: options.factory,
+      singleton: options.singleton,
+      scoreRule: (options.scoreRule ?? (options.scoreExpression ? 'expression' : undefined)) as ScoreRule | undefined,
+      scoreExpression: options.scoreExpression,
+      topK: options.top,
+      maxTime: options.maxTime,
+      maxAttempts: options.maxAttempts,
+      maxWorkerErrors: options.maxWorkerErrors,
+      count: options.count,
+      continuous: options.continuous
     };
   }
 
+  /**
+   * Collects targets from the positional argument, --targets and --targets-file
+   */
+  private collectTargets(target: string | undefined, options: CLIOptions): string[] {
+    const targets: string[] = [];
+    
+    if (target) {
+      targets.push(target);
+    }
+    
+    if (options.targets) {
+      targets.push(...options.targets.split(','));
+    }
+    
+    if (options.targetsFile) {
+      const lines = readFileSync(options.targetsFile, 'utf8').split(/\r?\n/);
+      targets.push(...lines.filter(line => !line.trim().startsWith('#')));
+    }
+    
+    const unique = [...new Set(targets.map(t => t.trim()).filter(t => t.length > 0))];
+    if (unique.length === 0) {
+      throw new Error('No target given. Pass a target argument, --targets or --targets-file');
+    }
+    
+    return unique;
+  }
+
   /**
    * Validates search mode
    */
   private validateSearchMode(mode: string): SearchMode {
-    const validModes: SearchMode[] = ['anywhere', 'start', 'end', 'position'];
+    const validModes: SearchMode[] = ['anywhere', 'start', 'end', 'position', 'pattern', 'score'];
     if (!validModes.includes(mode as SearchMode)) {
       throw new Error(`Invalid search mode: ${mode}. Must be one of: ${validModes.join(', ')}`);
     }
     return mode as SearchMode;
   }
 
+  /**
+   * Validates chain
+   */
+  private validateChain(chain: string): ChainId {
+    if (!CHAINS.includes(chain as ChainId)) {
+      throw new Error(`Invalid chain: ${chain}. Must be one of: ${CHAINS.join(', ')}`);
+    }
+    return chain as ChainId;
+  }
+
+  /**
+   * Validates the Bitcoin address format, which only applies to the bitcoin chain
+   */
+  private validateBitcoinFormat(format: string | undefined, chain: ChainId): BitcoinFormat | undefined {
+    if (format === undefined) {
+      return undefined;
+    }
+    if (!BITCOIN_FORMATS.includes(format as BitcoinFormat)) {
+      throw new Error(`Invalid Bitcoin format: ${format}. Must be one of: ${BITCOIN_FORMATS.join(', ')}`);
+    }
+    if (chain !== 'bitcoin') {
+      throw new Error('--bitcoin-format only applies to --chain bitcoin');
+    }
+    return format as BitcoinFormat;
+  }
+
+  /**
+   * Validates address type
+   */
+  private validateAddressType(type: string): AddressType {
+    const validTypes: AddressType[] = ['eoa', 'create', 'create2', 'mnemonic', 'split-key', 'safe', 'simple-account'];
+    if (!validTypes.includes(type as AddressType)) {
+      throw new Error(`Invalid address type: ${type}. Must be one of: ${validTypes.join(', ')}`);
+    }
+    return type as AddressType;
+  }
+
+  /**
+   * Validates mnemonic word count
+   */
+  private validateMnemonicWords(words: string): 12 | 24 {
+    if (words !== '12' && words !== '24') {
+      throw new Error(`Invalid mnemonic word count: ${words}. Must be 12 or 24`);
+    }
+    return words === '24' ? 24 : 12;
+  }
+
+  /**
+   * Validates keystore key derivation function
+   */
+  private validateKdf(kdf: string): KeystoreKdf {
+    const validKdfs: KeystoreKdf[] = ['scrypt', 'pbkdf2'];
+    if (!validKdfs.includes(kdf as KeystoreKdf)) {
+      throw new Error(`Invalid KDF: ${kdf}. Must be one of: ${validKdfs.join(', ')}`);
+    }
+    return kdf as KeystoreKdf;
+  }
+
+  /**
+   * Validates a Shamir split given as M-of-N
+   */
+  private validateShareScheme(split: string): ShareScheme {
+    const match = /^(\d+)-of-(\d+)$/.exec(split);
+    const threshold = Number(match?.[1]);
+    const shares = Number(match?.[2]);
+    if (!match || threshold < 2 || threshold > shares || shares > MAX_SHARES) {
+      throw new Error(`Invalid split: ${split}. Must be M-of-N with 2 <= M <= N <= ${MAX_SHARES}, such as 2-of-3`);
+    }
+    return { threshold, shares };
+  }
+
   /**
    * Shows configuration
    */
   private showConfiguration(config: GeneratorConfig): void {
+    if (this.format !== 'text') {
+      // The BIP-39 passphrase is a secret, so it is never echoed back
+      const { passphrase, ...publicConfig } = config;
+      this.emitRecord({ type: 'config', config: publicConfig });
+      getConfigWarnings(config).forEach(message => this.emitRecord({ type: 'warning', message }));
+      return;
+    }
+    
     console.log(chalk.cyan('\n🎯 Vanity Address Generator Configuration'));
     console.log(chalk.gray('='.repeat(50)));
-    console.log(`Target: ${chalk.yellow(config.target)}`);
+    const targets = getTargets(config);
+    if (config.searchMode === 'score') {
+      console.log(`Score: ${chalk.yellow(getScoreLabel(config))}`);
+      console.log(`Keeping Top: ${chalk.yellow(config.topK ?? 10)}`);
+    } else if (targets.length > 1) {
+      const preview = targets.slice(0, 5).join(', ') + (targets.length > 5 ? ', ...' : '');
+      console.log(`Targets: ${chalk.yellow(`${targets.length} (${preview})`)}`);
+    } else {
+      console.log(`Target: ${chalk.yellow(config.target)}`);
+    }
     console.log(`Mode: ${chalk.yellow(config.searchMode)}`);
     if (config.searchMode === 'position') {
       console.log(`Position: ${chalk.yellow(config.position)}`);
     }
+    console.log(`Chain: ${chalk.yellow(config.chain ?? 'ethereum')}`);
+    if (config.chain === 'bitcoin') {
+      console.log(`Bitcoin Format: ${chalk.yellow(config.bitcoinFormat ?? 'p2wpkh')}`);
+    }
+    console.log(`Address Type: ${chalk.yellow(config.addressType ?? 'eoa')}`);
+    if (config.addressType === 'create2') {
+      console.log(`Deployer: ${chalk.yellow(config.deployer)}`);
+      console.log(`Init Code Hash: ${chalk.yellow(config.initCodeHash)}`);
+    }
+    if (config.addressType === 'create') {
+      console.log(`Nonces per Key: ${chalk.yellow(config.nonceCount ?? 1)}`);
+    }
+    if (config.addressType === 'split-key') {
+      console.log(`Public Key: ${chalk.yellow(config.publicKey)}`);
+    }
+    if (isSmartAccountType(config.addressType)) {
+      const type = config.addressType;
+      console.log(`Account Version: ${chalk.yellow(config.accountVersion ?? DEFAULT_SMART_ACCOUNT_VERSIONS[type])}`);
+      console.log(`Factory: ${chalk.yellow(createSmartAccountMiner(config).factory)}`);
+      console.log(`Owners: ${chalk.yellow(config.owners?.join(', '))}`);
+      if (type === 'safe') {
+        console.log(`Threshold: ${chalk.yellow(`${config.threshold ?? 1} of ${config.owners?.length}`)}`);
+      }
+    }
+    if (config.addressType === 'mnemonic') {
+      console.log(`Mnemonic Words: ${chalk.yellow(config.mnemonicWords ?? 12)}${config.passphrase ? chalk.gray(' (with passphrase)') : ''}`);
+      console.log(`Derivation Path: ${chalk.yellow(config.derivationPath ?? DEFAULT_DERIVATION_PATH)}`);
+      console.log(`Indices per Mnemonic: ${chalk.yellow(config.accountCount ?? 1)}`);
+    }
     console.log(`Case Sensitive: ${chalk.yellow(config.caseSensitive ? 'Yes' : 'No')}`);
     console.log(`Worker Threads: ${chalk.yellow(config.numWorkers)}`);
-    console.log(`Looking for: ${chalk.yellow(getSearchDescription(config.target, config.searchMode, config.caseSensitive, config.position))}`);
+    if (config.continuous) {
+      console.log(`Matches per Target: ${chalk.yellow('unbounded')}`);
+    } else if (config.count && config.count > 1) {
+      console.log(`Matches per Target: ${chalk.yellow(config.count)}`);
+    }
+    if (config.maxTime !== undefined) {
+      console.log(`Time Budget: ${chalk.yellow(formatTime(config.maxTime))}`);
+    }
+    if (config.maxAttempts !== undefined) {
+      console.log(`Attempt Budget: ${chalk.yellow(formatNumber(config.maxAttempts))}`);
+    }
+    if (config.maxWorkerErrors !== undefined) {
+      console.log(`Worker Error Budget: ${chalk.yellow(config.maxWorkerErrors)}`);
+    }
+    if (this.secretOutput) {
+      console.log(`Results Output: ${chalk.yellow(this.secretOutput.description)}`);
+    }
+    if (this.keystoreOutput) {
+      console.log(`Keystore Directory: ${chalk.yellow(`${this.keystoreOutput.directory} (${this.keystoreOutput.kdf})`)}`);
+    }
+    if (this.shareScheme) {
+      const destination = this.sharesDirectory ?? 'shown one at a time';
+      console.log(`Key Shares: ${chalk.yellow(`${this.shareScheme.threshold}-of-${this.shareScheme.shares}, ${destination}`)}`);
+    }
+    if (targets.length === 1 && config.searchMode !== 'score') {
+      console.log(`Looking for: ${chalk.yellow(getSearchDescription(config.target, config.searchMode, config.caseSensitive, config.position))}`);
+    }
+    for (const warning of getConfigWarnings(config)) {
+      console.log(chalk.yellow(`⚠️  ${warning}`));
+    }
   }
 
   /**
    * Shows difficulty estimate
    */
   private showDifficultyEstimate(config: GeneratorConfig): void {
-    const { difficulty, description } = estimateDifficulty(config.target, config.searchMode, config.caseSensitive);
+    if (config.searchMode === 'score') {
+      return;
+    }
+    
+    const targets = getTargets(config);
+    const hardest = targets
+      .map(target => this.buildEstimate(target, config))
+      .reduce((hardest, estimate) => (estimate.difficulty > hardest.difficulty ? estimate : hardest));
+    
+    // The live progress line reports against the hardest target
+    this.runEstimate = hardest;
+    
+    if (this.format !== 'text') {
+      this.emitRecord({ type: 'estimate', estimate: hardest });
+      return;
+    }
+    
     console.log(chalk.cyan('\n📊 Difficulty Estimate'));
     console.log(chalk.gray('='.repeat(50)));
-    console.log(`Probability: ${chalk.yellow(description)}`);
+    console.log(`${targets.length > 1 ? 'Hardest Target' : 'Probability'}: ${chalk.yellow(hardest.description)}`);
+    console.log(`Expected Attempts: ${chalk.yellow(formatNumber(Math.round(hardest.difficulty)))}`);
+    const source = hardest.speedSource === 'benchmark' ? 'benchmarked' : 'default';
+    const curve = hardest.successCurve
+      .map(({ confidence, seconds }) => `${this.formatConfidence(confidence)} ${formatTime(seconds)}`)
+      .join(', ');
+    console.log(`Estimated Time: ${chalk.yellow(`expected ${formatTime(hardest.estimatedSeconds)}; ${curve}`)}`);
+    console.log(chalk.gray(`(at ~${formatNumber(Math.round(hardest.estimatedSpeed))} ${getAttemptUnit(config)}/s, ${source})`));
     
-    if (difficulty > 1000000) {
+    if (config.maxTime !== undefined || config.maxAttempts !== undefined) {
+      const budget = Math.min(config.maxAttempts ?? Infinity, (config.maxTime ?? Infinity) * hardest.estimatedSpeed);
+      const chance = getSuccessProbability(hardest.probability, budget);
+      console.log(`Chance Within Budget: ${chalk.yellow(this.formatConfidence(chance))}`);
+    }
+    
+    if (hardest.difficulty > 1000000) {
       console.log(chalk.yellow('⚠️  This is a difficult target that may take a long time.'));
     }
   }
@@ -190,31 +1437,151 @@ export class CLI {
     if (!this.generator) return;
 
     this.generator.on('started', () => {
-      this.spinner = ora('Generating vanity address...').start();
+      if (this.format === 'text') {
+        this.spinner = ora('Generating vanity address...').start();
+      }
     });
 
+    const unit = getAttemptUnit(this.generator.getConfig());
+    const scoreMode = this.generator.getConfig().searchMode === 'score';
+    let bestAddress: string | undefined;
+
     this.generator.on('progress', (stats: PerformanceStats) => {
+      const estimate = this.runEstimate;
+      const successProbability = estimate && getSuccessProbability(estimate.probability, stats.totalAttempts);
+      
+      if (this.format === 'ndjson') {
+        this.emitRecord({ type: 'progress', stats, successProbability });
+      }
       if (this.spinner) {
-        const text = `${formatNumber(stats.totalAttempts)} attempts | ${formatNumber(Math.round(stats.avgAddressesPerSecond))} avg addr/s | ${formatNumber(Math.round(stats.currentAddressesPerSecond))} current addr/s`;
+        let text = `${formatNumber(stats.totalAttempts)} attempts | ${formatNumber(Math.round(stats.avgAddressesPerSecond))} avg ${unit}/s | ${formatNumber(Math.round(stats.currentAddressesPerSecond))} current ${unit}/s`;
+        if (estimate && successProbability !== undefined && stats.avgAddressesPerSecond > 0) {
+          // Completion times at the measured speed, counted from the start of the run
+          const levels = estimate.successCurve.map(({ confidence }) => Math.round(confidence * 100)).join('/');
+          const times = estimate.successCurve.map(({ attempts }) => formatTime(attempts / stats.avgAddressesPerSecond)).join(' / ');
+          text += ` | ${this.formatConfidence(successProbability)} chance by now | ${levels}% by ${times}`;
+        }
         this.spinner.text = text;
       }
     });
 
-    this.generator.on('found', (result: VanityAddressResult) => {
+    this.generator.on('found', (found: VanityAddressResult) => {
+      const { result, keystorePath, shares } = this.saveResult(found);
+      
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'result', result: this.toShown(result), keystore: keystorePath, shares });
+        return;
+      }
+      
       if (this.spinner) {
         this.spinner.stop();
       }
       
-      this.showResult(result);
-      process.exit(0);
+      this.showResult(result, keystorePath, shares);
+      
+      const progress = this.generator?.getTargetProgress();
+      if (progress && progress.satisfied < progress.total) {
+        console.log(chalk.gray(`\n${progress.found} found, ${progress.satisfied}/${progress.total} targets satisfied, still searching...\n`));
+        // Shares being shown restart the spinner once they are done
+        if (!this.showingShares) {
+          this.spinner?.start();
+        }
+      }
+    });
+
+    this.generator.on('best', (results: VanityAddressResult[]) => {
+      const leader = results[0];
+      if (!leader || leader.address === bestAddress) {
+        return;
+      }
+      bestAddress = leader.address;
+      
+      if (this.format === 'ndjson') {
+        // Keys are only reported once the run ends and the final top K is known
+        this.emitRecord({ type: 'best', results: results.map(({ partialKey, ...rest }) => redactSecret(rest)) });
+      } else if (this.format === 'text') {
+        this.spinner?.stop();
+        console.log(`${chalk.green('🏆 New best')} ${chalk.yellow(leader.address)} ${chalk.gray(`score ${leader.score}`)}`);
+        this.spinner?.start();
+      }
+    });
+
+    this.generator.on('budgetExhausted', (report: BudgetReport) => {
+      // A near-miss is not a match, so it is only kept in the keystore directory
+      const keystorePath = report.nearMiss && this.saveKeystore(report.nearMiss);
+      const nearMiss = keystorePath ? { ...report.nearMiss!, privateKey: undefined, keypair: undefined } : report.nearMiss;
+      
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'budgetExhausted', report: { ...report, nearMiss: nearMiss && this.toShown(nearMiss) }, keystore: keystorePath });
+      } else if (!scoreMode) {
+        // Score mode shows its final top K when the run completes instead
+        this.showBudgetExhausted({ ...report, nearMiss }, keystorePath);
+      }
+    });
+
+    this.generator.on('completed', (summary: RunSummary) => {
+      if (summary.reason === 'failed') {
+        // The 'error' handler has already reported the failure
+        return;
+      }
+      
+      const best = summary.best?.map(result => this.saveResult(result));
+      const exitCode = summary.reason === 'stopped'
+        ? EXIT_CODES.interrupted
+        : summary.reason === 'budget' && !scoreMode ? EXIT_CODES.budget : EXIT_CODES.success;
+      
+      if (this.format !== 'text') {
+        this.emitRecord({
+          type: 'completed',
+          summary: { ...summary, best: best?.map(({ result, keystorePath, shares }) => ({ ...this.toShown(result), keystore: keystorePath, shares })) }
+        });
+        return this.exitAfterSecrets(exitCode);
+      }
+      
+      if (best) {
+        this.showBestResults(summary, best);
+      }
+      if (summary.found > 1) {
+        console.log(chalk.green(`\n✅ Collected ${summary.found} results in ${formatTime(summary.stats.totalTime)}`));
+      }
+      if (this.secretOutput && (summary.found > 0 || best?.length)) {
+        console.log(chalk.gray(`Results written to ${this.secretOutput.description}`));
+      }
+      this.exitAfterSecrets(exitCode);
+    });
+
+    this.generator.on('workerRestarted', (restart: WorkerRestart) => {
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'workerRestarted', restart });
+        return;
+      }
+      
+      this.spinner?.stop();
+      console.log(chalk.yellow(`⚠️  Worker ${restart.id} crashed (${restart.error}); restarted after ${formatTime(restart.delay / 1000)}, ${restart.errors}/${restart.maxErrors} of the error budget used`));
+      if (!this.showingShares) {
+        this.spinner?.start();
+      }
+    });
+
+    this.generator.on('verificationFailed', (report: VerificationReport) => {
+      if (this.format !== 'text') {
+        this.emitRecord({ type: 'verification', report });
+        return;
+      }
+      
+      const failures = report.checks.filter(check => !check.passed).map(check => check.detail);
+      this.spinner?.stop();
+      console.log(chalk.yellow(`⚠️  Discarded ${report.address}, which failed verification: ${failures.join('; ')}`));
+      if (!this.showingShares) {
+        this.spinner?.start();
+      }
     });
 
     this.generator.on('error', (error: Error) => {
       if (this.spinner) {
         this.spinner.fail('Generation failed');
       }
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
+      this.exitAfterSecrets(EXIT_CODES.error, error);
     });
 
     this.generator.on('stopped', () => {
@@ -224,14 +1591,183 @@ export class CLI {
     });
   }
 
+  /**
+   * Writes a result to the keystore directory, its key shares and the
+   * results output as configured
+   *
+   * Returns the result as it was saved, which no longer carries the
+   * plaintext key once it has been written to a key file or split into
+   * shares. A write that fails ends the run rather than losing further keys.
+   */
+  private saveResult(found: VanityAddressResult): { result: VanityAddressResult; keystorePath?: string; shares?: string[] } {
+    const keystorePath = this.saveKeystore(found);
+    const shares = this.saveShares(found);
+    const result = keystorePath || shares ? { ...found, privateKey: undefined, keypair: undefined, wif: undefined } : found;
+    
+    if (this.secretOutput) {
+      this.secretOutput.write(result);
+      this.secretOutput.flush().catch(error => this.fail(error));
+    }
+    
+    return { result, keystorePath, shares };
+  }
+
+  /**
+   * Splits a found key into shares when --split is set
+   *
+   * Returns the share files written, or none when the shares are queued to
+   * be shown on the terminal instead.
+   */
+  private saveShares(result: VanityAddressResult): string[] | undefined {
+    if (!this.shareScheme) {
+      return undefined;
+    }
+    
+    const { chain, bitcoinFormat } = this.generator!.getConfig();
+    const shares = splitResultKey(result, this.shareScheme, chain, bitcoinFormat);
+    const directory = this.sharesDirectory;
+    if (directory) {
+      return shares.map(share => writeShare(directory, share));
+    }
+    
+    this.shareDisplay = this.shareDisplay.then(() => this.showShares(shares));
+    this.shareDisplay.catch(error => this.fail(error));
+    return [];
+  }
+
+  /**
+   * Shows a key's shares on the terminal one at a time
+   *
+   * Each share appears only once its holder is ready, and the screen and
+   * its scrollback are cleared once it has been recorded.
+   */
+  private async showShares(shares: KeyShare[]): Promise<void> {
+    const { address, threshold } = shares[0]!;
+    this.showingShares = true;
+    this.spinner?.stop();
+    
+    try {
+      for (const share of shares) {
+        console.log(chalk.yellow(`\n🔐 Share ${share.index} of ${share.shares} for ${address}`));
+        await waitForEnter(chalk.gray('Press Enter to show it, with only its holder watching the screen '));
+        console.log(JSON.stringify(share));
+        console.log(chalk.gray(`Any ${threshold} shares recover the key with: v4n1ty recover <share>...`));
+        await waitForEnter(chalk.gray('Press Enter once it is recorded to clear the screen '));
+        process.stdout.write('\x1b[2J\x1b[3J\x1b[H');
+      }
+    } catch {
+      process.stdout.write('\x1b[2J\x1b[3J\x1b[H');
+      throw new Error(`Stopped showing the shares for ${address}; its key is lost unless ${threshold} shares were recorded`);
+    }
+    
+    console.log(chalk.green(`✅ All ${shares.length} shares for ${address} shown`));
+    this.showingShares = false;
+    if (this.generator?.isGenerating()) {
+      this.spinner?.start();
+    }
+  }
+
+  /**
+   * Gets a result as it may be printed: without its key material unless
+   * --reveal was given
+   */
+  private toShown(result: VanityAddressResult): VanityAddressResult {
+    return this.reveal ? result : redactSecret(result);
+  }
+
+  /**
+   * Describes where a result's withheld key material went
+   */
+  private describeWithheld(written: boolean): string {
+    return written && this.secretOutput
+      ? `written to ${this.secretOutput.description} (pass --reveal to print it)`
+      : 'withheld (pass --reveal to print it)';
+  }
+
+  /**
+   * Describes where a split key's shares went
+   */
+  private describeShares(files: string[]): string {
+    const { threshold, shares } = this.shareScheme!;
+    const destination = files.length > 0 ? `written to ${files.join(', ')}` : 'each shown below once its holder is ready';
+    return `any ${threshold} of ${shares} recover the key, ${destination}`;
+  }
+
+  /**
+   * Writes a found key into the keystore directory when keystore output is enabled
+   *
+   * Ethereum keys are encrypted into V3 keystores; Solana keypairs are written
+   * as Solana CLI keypair files.
+   */
+  private saveKeystore(result: VanityAddressResult): string | undefined {
+    if (this.keypairDirectory && result.keypair) {
+      return writeSolanaKeypair(this.keypairDirectory, result.address, result.keypair);
+    }
+    if (!this.keystoreOutput || !result.privateKey) {
+      return undefined;
+    }
+    
+    const { directory, kdf, password } = this.keystoreOutput;
+    const keystore = encryptKeystore(result.privateKey as Hex, password, kdf);
+    return writeKeystore(directory, keystore);
+  }
+
   /**
    * Shows the final result
    */
-  private showResult(result: VanityAddressResult): void {
+  private showResult(saved: VanityAddressResult, keystorePath?: string, shares?: string[]): void {
+    const withheld = !this.reveal && hasSecret(saved);
+    const result = this.toShown(saved);
+    
     console.log(chalk.green('\n🎉 Vanity Address Found!'));
     console.log(chalk.gray('='.repeat(50)));
     console.log(`${chalk.cyan('Address:')} ${chalk.yellow(result.address)}`);
-    console.log(`${chalk.cyan('Private Key:')} ${chalk.yellow(result.privateKey)}`);
+    console.log(`${chalk.cyan('Target:')} ${chalk.yellow(result.target)}`);
+    if (withheld) {
+      console.log(`${chalk.cyan('Secret:')} ${chalk.gray(this.describeWithheld(true))}`);
+    }
+    if (shares) {
+      console.log(`${chalk.cyan('Key Shares:')} ${chalk.yellow(this.describeShares(shares))}`);
+    }
+    if (keystorePath) {
+      console.log(`${chalk.cyan(this.keypairDirectory ? 'Keypair File:' : 'Keystore:')} ${chalk.yellow(keystorePath)}`);
+    } else if (result.privateKey) {
+      console.log(`${chalk.cyan('Private Key:')} ${chalk.yellow(result.privateKey)}`);
+    } else if (result.wif) {
+      console.log(`${chalk.cyan('WIF:')} ${chalk.yellow(result.wif)}`);
+    } else if (result.keypair) {
+      console.log(`${chalk.cyan('Keypair:')} ${chalk.yellow(JSON.stringify(result.keypair))}`);
+      console.log(chalk.gray('Save it to a .json file to use it with the Solana CLI, or pass --keystore <dir>'));
+    }
+    if (result.salt) {
+      console.log(`${chalk.cyan('Salt:')} ${chalk.yellow(result.salt)}`);
+    }
+    if (result.deployer) {
+      console.log(`${chalk.cyan('Deployer:')} ${chalk.yellow(result.deployer)}`);
+    }
+    if (result.nonce !== undefined) {
+      console.log(`${chalk.cyan('Nonce:')} ${chalk.yellow(result.nonce)}`);
+    }
+    if (result.partialKey) {
+      console.log(`${chalk.cyan('Partial Key:')} ${chalk.yellow(result.partialKey)}`);
+      console.log(chalk.gray(`Requester: v4n1ty combine --secret-file <file> --partial-key ${result.partialKey} --expect ${result.address}`));
+    }
+    if (result.mnemonic) {
+      console.log(`${chalk.cyan('Mnemonic:')} ${chalk.yellow(result.mnemonic)}`);
+    }
+    if (result.derivationPath) {
+      console.log(`${chalk.cyan('Derivation Path:')} ${chalk.yellow(result.derivationPath)}`);
+    }
+    if (result.deployment) {
+      const { deployment } = result;
+      console.log(`${chalk.cyan('Factory:')} ${chalk.yellow(deployment.factory)}`);
+      console.log(`${chalk.cyan('Call:')} ${chalk.yellow(deployment.method)}`);
+      for (const [name, value] of Object.entries(deployment.args)) {
+        console.log(`   ${name}: ${value}`);
+      }
+      console.log(`${chalk.cyan('Calldata:')} ${chalk.yellow(deployment.data)}`);
+      console.log(chalk.gray('Send the calldata to the factory to deploy the account at this address'));
+    }
     console.log(`${chalk.cyan('Description:')} ${result.searchDescription}`);
     console.log(`${chalk.cyan('Total Attempts:')} ${chalk.yellow(formatNumber(result.attempts))}`);
     console.log(`${chalk.cyan('Search Time:')} ${chalk.yellow(formatTime(result.searchTime))}`);
@@ -242,22 +1778,106 @@ export class CLI {
     console.log(chalk.gray('• This tool is for educational/vanity purposes only'));
   }
 
+  /**
+   * Shows the top results of a 'score' mode run
+   */
+  private showBestResults(summary: RunSummary, best: { result: VanityAddressResult; keystorePath?: string; shares?: string[] }[]): void {
+    const reason = summary.reason === 'budget' ? 'budget used up' : 'stopped';
+    
+    console.log(chalk.green(`\n🏁 Top ${best.length} results (${reason})`));
+    console.log(chalk.gray('='.repeat(50)));
+    console.log(`${chalk.cyan('Total Attempts:')} ${chalk.yellow(formatNumber(summary.stats.totalAttempts))}`);
+    console.log(`${chalk.cyan('Search Time:')} ${chalk.yellow(formatTime(summary.stats.totalTime))}`);
+    
+    best.forEach(({ result, keystorePath, shares }, index) => {
+      console.log(`\n${chalk.cyan(`#${index + 1}`)} ${chalk.yellow(result.address)} ${chalk.gray(`score ${result.score}`)}`);
+      this.showResultSecrets(result, keystorePath, true, shares);
+    });
+  }
+
+  /**
+   * Shows the end of a run whose time or attempt budget ran out, with the
+   * closest near-miss seen
+   */
+  private showBudgetExhausted(report: BudgetReport, keystorePath?: string): void {
+    const progress = this.generator?.getTargetProgress();
+    
+    console.log(chalk.yellow('\n⏱️  Budget used up'));
+    console.log(chalk.gray('='.repeat(50)));
+    console.log(`${chalk.cyan('Total Attempts:')} ${chalk.yellow(formatNumber(report.stats.totalAttempts))}`);
+    console.log(`${chalk.cyan('Search Time:')} ${chalk.yellow(formatTime(report.stats.totalTime))}`);
+    if (progress && report.found > 0) {
+      console.log(`${chalk.cyan('Targets Satisfied:')} ${chalk.yellow(`${progress.satisfied}/${progress.total}`)}`);
+    }
+    
+    const nearMiss = report.nearMiss;
+    if (!nearMiss) {
+      return;
+    }
+    
+    console.log(`\n${chalk.cyan('Closest Near-Miss:')} ${chalk.yellow(nearMiss.address)}`);
+    console.log(`   Matched: ${nearMiss.matchedLength} characters of ${nearMiss.searchDescription}`);
+    this.showResultSecrets(nearMiss, keystorePath, false);
+  }
+
+  /**
+   * Shows the secret behind a result as indented lines
+   *
+   * Near-misses are not written to the results output, so their withheld
+   * keys are not described as written.
+   */
+  private showResultSecrets(saved: VanityAddressResult, keystorePath?: string, written = true, shares?: string[]): void {
+    const result = this.toShown(saved);
+    if (!this.reveal && hasSecret(saved)) {
+      console.log(`   Secret: ${this.describeWithheld(written)}`);
+    }
+    if (shares) {
+      console.log(`   Key Shares: ${this.describeShares(shares)}`);
+    }
+    if (keystorePath) {
+      console.log(`   ${this.keypairDirectory ? 'Keypair File' : 'Keystore'}: ${keystorePath}`);
+    } else if (result.privateKey) {
+      console.log(`   Private Key: ${result.privateKey}`);
+    } else if (result.wif) {
+      console.log(`   WIF: ${result.wif}`);
+    } else if (result.keypair) {
+      console.log(`   Keypair: ${JSON.stringify(result.keypair)}`);
+    }
+    if (result.salt) console.log(`   Salt: ${result.salt}`);
+    if (result.partialKey) console.log(`   Partial Key: ${result.partialKey}`);
+    if (result.mnemonic) console.log(`   Mnemonic: ${result.mnemonic}`);
+    if (result.derivationPath) console.log(`   Derivation Path: ${result.derivationPath}`);
+    if (result.nonce !== undefined) console.log(`   Deployer: ${result.deployer} (nonce ${result.nonce})`);
+    if (result.deployment) console.log(`   Deploy: ${result.deployment.method} on ${result.deployment.factory} with ${result.deployment.data}`);
+  }
+
   /**
    * Sets up graceful shutdown
    */
   private setupGracefulShutdown(): void {
+    let interrupted = false;
     const shutdown = () => {
-      console.log(chalk.yellow('\n\n🛑 Shutting down gracefully...'));
+      // A second signal gives up on results still being written
+      if (interrupted) {
+        this.exit(EXIT_CODES.interrupted);
+      }
+      interrupted = true;
       
-      if (this.generator) {
-        this.generator.stop();
+      if (this.format === 'text') {
+        console.log(chalk.yellow('\n\n🛑 Shutting down gracefully...'));
       }
       
       if (this.spinner) {
         this.spinner.stop();
       }
       
-      process.exit(0);
+      // Stopping a running generator completes the run, which exits once
+      // its results are written
+      if (this.generator?.isGenerating()) {
+        this.generator.stop();
+      } else {
+        this.exitAfterSecrets(EXIT_CODES.interrupted);
+      }
     };
 
     process.on('SIGINT', shutdown);
@@ -0,0 +1,88 @@
+import type { SharedRunState } from './types.js';
+
+/**
+ * Index of the stop flag in the control array
+ */
+const STOP_FLAG = 0;
+
+/**
+ * The generator's side of a run's shared memory
+ */
+export interface RunCounters {
+  /** Buffers handed to every worker */
+  state: SharedRunState;
+  /** Reads the attempts counted by each worker slot so far */
+  read(): number[];
+  /** Sets the stop flag, halting every worker at its next attempt */
+  stop(): void;
+}
+
+/**
+ * A worker's side of a run's shared memory
+ */
+export interface AttemptCounter {
+  /**
+   * Claims the next attempt and counts it against the worker's slot
+   *
+   * Returns false, counting nothing, once the stop flag is set or the
+   * attempt budget is used up; the worker whose claim runs past the budget
+   * sets the stop flag for the others.
+   */
+  claim(): boolean;
+}
+
+/**
+ * Allocates the attempt counters and stop flag shared with a run's workers
+ *
+ * Each worker slot owns a 64-bit counter that its worker adds to for every
+ * attempt, so the generator samples exact figures instead of receiving
+ * progress messages. A restarted worker keeps adding to its slot's counter.
+ */
+export function createRunCounters(slots: number): RunCounters {
+  if (typeof SharedArrayBuffer !== 'function') {
+    throw new Error('SharedArrayBuffer is not available; browsers only provide it to cross-origin isolated pages');
+  }
+
+  const state: SharedRunState = {
+    control: new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+    counters: new SharedArrayBuffer(BigUint64Array.BYTES_PER_ELEMENT * slots),
+    claimed: new SharedArrayBuffer(BigUint64Array.BYTES_PER_ELEMENT)
+  };
+  const control = new Int32Array(state.control);
+  const counters = new BigUint64Array(state.counters);
+
+  return {
+    state,
+    read: () => Array.from({ length: slots }, (_, slot) => Number(Atomics.load(counters, slot))),
+    stop: () => void Atomics.store(control, STOP_FLAG, 1)
+  };
+}
+
+/**
+ * Attaches a worker to its slot's counter, the run's stop flag and, when
+ * the run has one, its attempt budget
+ *
+ * Attempts are claimed from a run-wide total with a single atomic add, so
+ * however many workers race for the last ones, no more than `maxAttempts`
+ * are ever counted.
+ */
+export function attachAttemptCounter(state: SharedRunState, slot: number, maxAttempts?: number): AttemptCounter {
+  const control = new Int32Array(state.control);
+  const counters = new BigUint64Array(state.counters);
+  const claimed = new BigUint64Array(state.claimed);
+  const budget = maxAttempts === undefined ? undefined : BigInt(maxAttempts);
+
+  return {
+    claim: () => {
+      if (Atomics.load(control, STOP_FLAG) !== 0) {
+        return false;
+      }
+      if (budget !== undefined && Atomics.add(claimed, 0, 1n) >= budget) {
+        Atomics.store(control, STOP_FLAG, 1);
+        return false;
+      }
+      Atomics.add(counters, slot, 1n);
+      return true;
+    }
+  };
+}
@@ -1,7 +1,58 @@
 import { EventEmitter } from 'events';
-import { createWorker, terminateWorker } from './worker.js';
-import { calculatePerformanceStats, getSearchDescription, validateConfig } from './utils.js';
-import type { GeneratorConfig, WorkerResult, VanityAddressResult, PerformanceStats } from './types.js';
+import { createRunCounters, type RunCounters } from './counters.js';
+import { createWorker, terminateWorker, type SearchWorker, type WorkerFactory } from './worker.js';
+import { unsealSecret, wipeSecret } from './secrets.js';
+import { verifyResult } from './verify.js';
+import {
+  calculatePerformanceStats,
+  DEFAULT_MAX_WORKER_ERRORS,
+  getMatchesPerTarget,
+  getScoreLabel,
+  getSearchDescription,
+  getTargets,
+  validateConfig
+} from './utils.js';
+import type {
+  BudgetReport,
+  CompletionReason,
+  GeneratorConfig,
+  WorkerResult,
+  VanityAddressResult,
+  PerformanceStats,
+  RunSummary,
+  VerificationReport,
+  WorkerHealth,
+  WorkerRestart
+} from './types.js';
+
+/**
+ * Milliseconds before a crashed worker is restarted, doubling with each
+ * crash in a row up to MAX_RESTART_DELAY
+ */
+const BASE_RESTART_DELAY = 100;
+const MAX_RESTART_DELAY = 30_000;
+
+/**
+ * Milliseconds between samples of the shared attempt counters, which check
+ * the budget, and between 'progress' events
+ */
+const SAMPLE_INTERVAL = 100;
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * A worker slot kept for the whole run, whose worker is replaced when it crashes
+ */
+interface WorkerSlot {
+  worker?: SearchWorker;
+  health: WorkerHealth;
+  /** Crashes since the worker last counted an attempt, which set its backoff */
+  failures: number;
+  /** Attempts counted in the slot as of the last sample */
+  sampled: number;
+  /** Whether the slot's worker has posted 'done' */
+  done: boolean;
+  restartTimer?: NodeJS.Timeout;
+}
 
 /**
  * Events emitted by the VanityGenerator
@@ -9,27 +60,49 @@ import type { GeneratorConfig, WorkerResult, VanityAddressResult, PerformanceSta
 export interface GeneratorEvents {
   'progress': (stats: PerformanceStats) => void;
   'found': (result: VanityAddressResult) => void;
+  'best': (results: VanityAddressResult[]) => void;
   'error': (error: Error) => void;
   'started': () => void;
   'stopped': () => void;
+  'budgetExhausted': (report: BudgetReport) => void;
+  'completed': (summary: RunSummary) => void;
+  'workerRestarted': (restart: WorkerRestart) => void;
+  'verificationFailed': (report: VerificationReport) => void;
 }
 
 /**
  * Multi-threaded vanity address generator
+ *
+ * Workers are supervised: one that crashes is restarted after a backoff,
+ * and the run only fails, emitting 'error' before 'completed', once crashes
+ * exceed its error budget. Workers are started with createWorker unless
+ * another factory is given.
  */
 export class VanityGenerator extends EventEmitter {
   private config: GeneratorConfig;
-  private workers: Worker[] = [];
+  private workerFactory: WorkerFactory;
+  private targets: string[];
+  private matchesPerTarget: number;
+  private foundCounts: number[] = [];
+  private resultCount = 0;
+  private best: VanityAddressResult[] = [];
+  private nearMisses: (VanityAddressResult | undefined)[] = [];
+  private slots: WorkerSlot[] = [];
+  private workerErrors = 0;
   private isRunning = false;
-  private totalAttempts = 0;
+  private isDraining = false;
+  private counters?: RunCounters;
   private startTime = 0;
   private lastUpdateTime = 0;
   private lastUpdateAttempts = 0;
   private progressInterval?: NodeJS.Timeout;
 
-  constructor(config: GeneratorConfig) {
+  constructor(config: GeneratorConfig, workerFactory: WorkerFactory = createWorker) {
     super();
     this.config = config;
+    this.workerFactory = workerFactory;
+    this.targets = getTargets(config);
+    this.matchesPerTarget = getMatchesPerTarget(config);
     this.validateConfiguration();
   }
 
@@ -52,10 +125,16 @@ export class VanityGenerator extends EventEmitter {
     }
 
     this.isRunning = true;
-    this.totalAttempts = 0;
+    this.isDraining = false;
+    this.foundCounts = this.targets.map(() => 0);
+    this.resultCount = 0;
+    this.best = [];
+    this.nearMisses = [];
     this.startTime = Date.now();
     this.lastUpdateTime = this.startTime;
     this.lastUpdateAttempts = 0;
+    this.workerErrors = 0;
+    this.counters = createRunCounters(this.config.numWorkers);
 
     this.createWorkers();
     this.startProgressUpdates();
@@ -66,106 +145,386 @@ export class VanityGenerator extends EventEmitter {
    * Stops the vanity address generation
    */
   public stop(): void {
+    this.finish('stopped');
+  }
+
+  /**
+   * Ends the run, emitting 'stopped' followed by 'completed' with a summary
+   *
+   * A run that used up its budget emits 'budgetExhausted' in between, with
+   * the closest near-miss seen; a failed run emits its 'error' there. Only
+   * the first call has any effect.
+   */
+  private finish(reason: CompletionReason, error?: Error): void {
     if (!this.isRunning) {
       return;
     }
 
+    const stats = this.getStats();
     this.isRunning = false;
+    this.isDraining = false;
+    this.counters?.stop();
     this.terminateAllWorkers();
     this.stopProgressUpdates();
+    for (const slot of this.slots) {
+      if (slot.health.status !== 'failed') {
+        slot.health.status = 'stopped';
+      }
+    }
     this.emit('stopped');
+    if (reason === 'budget') {
+      this.emit('budgetExhausted', { stats, found: this.resultCount, nearMiss: this.getNearMiss() });
+    }
+    if (error) {
+      this.emit('error', error);
+    }
+    this.emit('completed', {
+      reason,
+      found: this.resultCount,
+      stats,
+      best: this.config.searchMode === 'score' ? [...this.best] : undefined,
+      workers: this.getWorkerHealth()
+    });
   }
 
   /**
-   * Creates and starts worker threads
+   * Creates a slot per worker thread and starts its worker
    */
   private createWorkers(): void {
-    for (let i = 0; i < this.config.numWorkers; i++) {
-      const worker = createWorker(
-        this.config,
-        (result: WorkerResult) => this.handleWorkerMessage(result),
-        (error: Error) => this.handleWorkerError(error)
-      );
-      
-      this.workers.push(worker);
-    }
+    const now = Date.now();
+    this.slots = Array.from({ length: this.config.numWorkers }, (_, id) => ({
+      health: { id, status: 'running', attempts: 0, errors: 0, restarts: 0, lastSeen: now },
+      failures: 0,
+      sampled: 0,
+      done: false
+    }));
+    this.slots.forEach(slot => this.spawnWorker(slot));
+  }
+
+  /**
+   * Starts a worker in a slot
+   *
+   * Messages and errors from a worker that has since been replaced are
+   * ignored.
+   */
+  private spawnWorker(slot: WorkerSlot): void {
+    const worker: SearchWorker = this.workerFactory(
+      this.config,
+      this.counters!.state,
+      slot.health.id,
+      (result: WorkerResult) => this.handleWorkerMessage(slot, worker, result),
+      (error: Error) => this.handleWorkerError(slot, worker, error)
+    );
+    slot.worker = worker;
+    slot.done = false;
+    slot.health.status = 'running';
   }
 
   /**
    * Handles messages from worker threads
+   *
+   * A result built from the message keeps its own copy of the secret, so the
+   * sealed buffer is wiped whatever becomes of the message.
+   */
+  private handleWorkerMessage(slot: WorkerSlot, worker: SearchWorker, result: WorkerResult): void {
+    try {
+      if (slot.worker === worker) {
+        this.dispatchWorkerMessage(slot, result);
+      }
+    } finally {
+      wipeSecret(result.data?.secret);
+    }
+  }
+
+  /**
+   * Dispatches a worker message by type, keeping its slot's health up to date
    */
-  private handleWorkerMessage(result: WorkerResult): void {
+  private dispatchWorkerMessage(slot: WorkerSlot, result: WorkerResult): void {
     if (!this.isRunning) {
       return;
     }
 
+    slot.health.lastSeen = Date.now();
+
     switch (result.type) {
       case 'found':
         if (result.data) {
           this.handleFoundResult(result.data);
         }
         break;
-      case 'progress':
-        if (result.attempts) {
-          this.totalAttempts += result.attempts;
+      case 'scored':
+        if (result.data) {
+          this.handleScoredResult(result.data);
+        }
+        break;
+      case 'near-miss':
+        if (result.data) {
+          this.handleNearMiss(result.data);
         }
         break;
+      case 'done':
+        slot.done = true;
+        this.finishDrain();
+        break;
       case 'error':
-        this.emit('error', new Error(result.error || 'Unknown worker error'));
+        this.handleWorkerError(slot, slot.worker!, new Error(result.error || 'Unknown worker error'));
         break;
     }
   }
 
   /**
    * Handles when a vanity address is found
+   *
+   * Each target is reported until it has collected the configured number of
+   * matches; the run completes when every target is satisfied. Every result
+   * is verified before it is reported; one that fails is dropped, emitting
+   * 'verificationFailed' with the report, and the search carries on.
    */
-  private handleFoundResult(data: { address: string; privateKey: string; attempts: number }): void {
-    this.totalAttempts += data.attempts;
-    const searchTime = (Date.now() - this.startTime) / 1000;
+  private handleFoundResult(data: NonNullable<WorkerResult['data']>): void {
+    const found = this.foundCounts[data.targetIndex] ?? 0;
+    if (found >= this.matchesPerTarget) {
+      return;
+    }
     
-    const result: VanityAddressResult = {
+    const target = this.targets[data.targetIndex] ?? this.config.target;
+    const result = this.toResult(data, target);
+    const report = verifyResult(result, this.config);
+    if (!report.passed) {
+      this.emit('verificationFailed', report);
+      return;
+    }
+    
+    this.foundCounts[data.targetIndex] = found + 1;
+    this.resultCount++;
+    this.emit('found', result);
+    
+    if (this.foundCounts.every(count => count >= this.matchesPerTarget)) {
+      this.finish('satisfied');
+    }
+  }
+
+  /**
+   * Builds a result from a worker's candidate data
+   */
+  private toResult(data: NonNullable<WorkerResult['data']>, target: string): VanityAddressResult {
+    return {
       address: data.address,
-      privateKey: data.privateKey,
-      attempts: this.totalAttempts,
-      searchTime,
+      target,
+      ...unsealSecret(data.secret),
+      salt: data.salt,
+      deployer: data.deployer,
+      nonce: data.nonce,
+      derivationPath: data.derivationPath,
+      partialKey: data.partialKey,
+      deployment: data.deployment,
+      attempts: this.getTotalAttempts(),
+      searchTime: (Date.now() - this.startTime) / 1000,
       searchDescription: getSearchDescription(
-        this.config.target,
+        target,
         this.config.searchMode,
         this.config.caseSensitive,
         this.config.position
       )
     };
+  }
 
-    this.stop();
-    this.emit('found', result);
+  /**
+   * Handles a candidate that made a worker's own top K in 'score' mode
+   *
+   * Keeps the overall top K and emits 'best' whenever it changes.
+   */
+  private handleScoredResult(data: NonNullable<WorkerResult['data']>): void {
+    const topK = this.config.topK ?? 10;
+    const score = data.score ?? 0;
+    const lowest = this.best[topK - 1];
+    if ((lowest && (lowest.score ?? 0) >= score) || this.best.some(result => result.address === data.address)) {
+      return;
+    }
+    
+    const label = getScoreLabel(this.config);
+    const result: VanityAddressResult = {
+      ...this.toResult(data, label),
+      score,
+      searchDescription: getSearchDescription(label, 'score', this.config.caseSensitive)
+    };
+    
+    this.best.push(result);
+    this.best.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    this.best.length = Math.min(this.best.length, topK);
+    this.emit('best', [...this.best]);
   }
 
   /**
-   * Handles worker errors
+   * Keeps the closest near-miss reported by any worker for each target
    */
-  private handleWorkerError(error: Error): void {
-    this.emit('error', error);
+  private handleNearMiss(data: NonNullable<WorkerResult['data']>): void {
+    const matchedLength = data.matchedLength ?? 0;
+    const closest = this.nearMisses[data.targetIndex];
+    if (closest && (closest.matchedLength ?? 0) >= matchedLength) {
+      return;
+    }
+    
+    const target = this.targets[data.targetIndex] ?? this.config.target;
+    this.nearMisses[data.targetIndex] = { ...this.toResult(data, target), matchedLength };
   }
 
   /**
-   * Starts periodic progress updates
+   * Gets the closest near-miss to a target that is still unsatisfied
+   */
+  private getNearMiss(): VanityAddressResult | undefined {
+    return this.nearMisses
+      .filter((nearMiss, index) => nearMiss && this.foundCounts[index]! < this.matchesPerTarget)
+      .reduce<VanityAddressResult | undefined>(
+        (closest, nearMiss) => (!closest || nearMiss!.matchedLength! > closest.matchedLength! ? nearMiss : closest),
+        undefined
+      );
+  }
+
+  /**
+   * Starts draining the workers once the run's time or attempt budget is used up
+   */
+  private checkBudget(): void {
+    if (!this.isRunning || this.isDraining) {
+      return;
+    }
+    
+    const elapsed = (Date.now() - this.startTime) / 1000;
+    const { maxTime, maxAttempts } = this.config;
+    if ((maxTime !== undefined && elapsed >= maxTime) || (maxAttempts !== undefined && this.getTotalAttempts() >= maxAttempts)) {
+      this.drain();
+    }
+  }
+
+  /**
+   * Sets the stop flag and lets the workers wind down before ending the run
+   * as 'budget'
+   *
+   * Results posted for attempts made within the budget can still be on their
+   * way, so the run keeps handling messages until every worker has posted
+   * 'done' or crashed. Pending restarts are cancelled.
+   */
+  private drain(): void {
+    this.isDraining = true;
+    this.counters?.stop();
+    for (const slot of this.slots) {
+      clearTimeout(slot.restartTimer);
+      slot.restartTimer = undefined;
+    }
+    this.finishDrain();
+  }
+
+  /**
+   * Ends a draining run once no worker is left searching
+   */
+  private finishDrain(): void {
+    if (this.isDraining && this.slots.every(slot => !slot.worker || slot.done)) {
+      this.finish('budget');
+    }
+  }
+
+  /**
+   * Handles a worker that crashed or reported an error
+   *
+   * The worker is replaced after a backoff that doubles with each crash in a
+   * row. Once crashes across the run exceed the error budget, the run ends
+   * as 'failed' instead. A worker that crashes while the run drains is not
+   * replaced.
+   */
+  private handleWorkerError(slot: WorkerSlot, worker: SearchWorker, error: Error): void {
+    if (!this.isRunning || slot.worker !== worker) {
+      return;
+    }
+
+    terminateWorker(worker);
+    slot.worker = undefined;
+    slot.failures++;
+    slot.health.errors++;
+    slot.health.lastError = error.message;
+    this.workerErrors++;
+    if (this.isDraining) {
+      this.finishDrain();
+      return;
+    }
+
+    const maxErrors = this.config.maxWorkerErrors ?? DEFAULT_MAX_WORKER_ERRORS;
+    if (this.workerErrors > maxErrors) {
+      slot.health.status = 'failed';
+      this.finish('failed', new Error(`Too many worker errors (more than ${maxErrors}); last: ${error.message}`));
+      return;
+    }
+
+    const delay = Math.min(BASE_RESTART_DELAY * 2 ** (slot.failures - 1), MAX_RESTART_DELAY);
+    slot.health.status = 'restarting';
+    slot.restartTimer = setTimeout(() => {
+      slot.restartTimer = undefined;
+      if (!this.isRunning) {
+        return;
+      }
+      this.spawnWorker(slot);
+      slot.health.restarts++;
+      this.emit('workerRestarted', {
+        id: slot.health.id,
+        error: error.message,
+        delay,
+        restarts: slot.health.restarts,
+        errors: this.workerErrors,
+        maxErrors
+      });
+    }, delay);
+  }
+
+  /**
+   * Starts sampling the shared attempt counters, emitting 'progress' about
+   * once a second and checking the budget on every sample
    */
   private startProgressUpdates(): void {
     this.progressInterval = setInterval(() => {
-      if (this.isRunning) {
-        const stats = calculatePerformanceStats(
-          this.totalAttempts,
-          this.startTime,
-          this.lastUpdateTime,
-          this.lastUpdateAttempts
-        );
-        
+      if (!this.isRunning) {
+        return;
+      }
+      
+      this.sampleWorkers();
+      if (Date.now() - this.lastUpdateTime >= PROGRESS_INTERVAL) {
+        const stats = this.getStats();
         this.lastUpdateTime = Date.now();
-        this.lastUpdateAttempts = this.totalAttempts;
-        
+        this.lastUpdateAttempts = stats.totalAttempts;
         this.emit('progress', stats);
       }
-    }, 1000); // Update every second
+      this.checkBudget();
+    }, SAMPLE_INTERVAL);
+  }
+
+  /**
+   * Notes which workers have counted attempts since the last sample
+   *
+   * A worker that is making progress has recovered, so its backoff starts
+   * over.
+   */
+  private sampleWorkers(): void {
+    const attempts = this.readAttempts();
+    const now = Date.now();
+    this.slots.forEach((slot, id) => {
+      if (attempts[id]! > slot.sampled) {
+        slot.sampled = attempts[id]!;
+        slot.failures = 0;
+        slot.health.lastSeen = now;
+      }
+    });
+  }
+
+  /**
+   * Reads the attempts counted by each worker slot, exact as of each
+   * worker's latest attempt
+   */
+  private readAttempts(): number[] {
+    return this.counters?.read() ?? [];
+  }
+
+  /**
+   * Gets the attempts counted across all workers
+   */
+  private getTotalAttempts(): number {
+    return this.readAttempts().reduce((sum, attempts) => sum + attempts, 0);
   }
 
   /**
@@ -179,11 +538,17 @@ export class VanityGenerator extends EventEmitter {
   }
 
   /**
-   * Terminates all worker threads
+   * Terminates all worker threads and cancels pending restarts
    */
   private terminateAllWorkers(): void {
-    this.workers.forEach(worker => terminateWorker(worker));
-    this.workers = [];
+    for (const slot of this.slots) {
+      clearTimeout(slot.restartTimer);
+      slot.restartTimer = undefined;
+      if (slot.worker) {
+        terminateWorker(slot.worker);
+        slot.worker = undefined;
+      }
+    }
   }
 
   /**
@@ -201,11 +566,30 @@ export class VanityGenerator extends EventEmitter {
   }
 
   /**
-   * Gets current statistics
+   * Gets the number of results so far, and how many targets are satisfied
+   */
+  public getTargetProgress(): { found: number; satisfied: number; total: number } {
+    return {
+      found: this.resultCount,
+      satisfied: this.foundCounts.filter(count => count >= this.matchesPerTarget).length,
+      total: this.targets.length
+    };
+  }
+
+  /**
+   * Gets the health of each worker slot
+   */
+  public getWorkerHealth(): WorkerHealth[] {
+    const attempts = this.readAttempts();
+    return this.slots.map(slot => ({ ...slot.health, attempts: attempts[slot.health.id] ?? 0 }));
+  }
+
+  /**
+   * Gets current statistics, with the exact attempts of each worker slot
    */
   public getStats(): PerformanceStats {
     return calculatePerformanceStats(
-      this.totalAttempts,
+      this.readAttempts(),
       this.startTime,
       this.lastUpdateTime,
       this.lastUpdateAttempts
@@ -1,17 +1,23 @@
-#!/usr/bin/env node
-
-import { CLI } from './cli.js';
-
 /**
- * Main entry point for the vanity address generator CLI
+ * Library entry point for the vanity address generator
+ *
+ * The CLI lives in bin.ts.
  */
-async function main(): Promise<void> {
-  const cli = new CLI();
-  await cli.execute(process.argv);
-}
-
-// Run the CLI
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-}); 
\ No newline at end of file
+export { generate, generateAddresses } from './api.js';
+export { VanityGenerator, type GeneratorEvents } from './generator.js';
+export type { SearchWorker, WorkerFactory } from './worker.js';
+export {
+  estimateDifficulty,
+  getMatchProbability,
+  getSearchDescription,
+  getTargets,
+  validateConfig
+} from './utils.js';
+export { createMatcher } from './matcher.js';
+export { deriveAddress, verifyResult } from './verify.js';
+export { createSmartAccountMiner, getSmartAccountAddress, SMART_ACCOUNT_VERSIONS } from './smartaccount.js';
+export { BITCOIN_FORMATS, CHAINS, getAddressFormat } from './chains.js';
+export { decryptKeystore, encryptKeystore } from './keystore.js';
+export { combineAndVerify, combineSplitKey, generateSplitKeySecret } from './splitkey.js';
+export { combineShares, recoverKey, splitResultKey, splitSecret } from './shamir.js';
+export type * from './types.js';
@@ -0,0 +1,282 @@
+import { checksumAddress, type Address } from 'viem';
+import { getAddressFormat } from './chains.js';
+import { compilePattern, getTargets, parsePattern } from './utils.js';
+import type { GeneratorConfig } from './types.js';
+
+/**
+ * Node of a prefix trie over target strings
+ */
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Indices of targets ending at this node */
+  targets: number[];
+}
+
+/**
+ * Builds a prefix trie so that many targets can be checked in a single pass
+ */
+function buildTrie(targets: string[]): TrieNode {
+  const root: TrieNode = { children: new Map(), targets: [] };
+  
+  targets.forEach((target, index) => {
+    let node = root;
+    for (const char of target) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map(), targets: [] };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.targets.push(index);
+  });
+  
+  return root;
+}
+
+/**
+ * Walks the trie over `text` from `offset` in direction `step`,
+ * returning the index of the first active target reached or -1
+ */
+function walkTrie(
+  root: TrieNode,
+  text: string,
+  offset: number,
+  step: 1 | -1,
+  isActive: (index: number) => boolean
+): number {
+  let node: TrieNode | undefined = root;
+  
+  for (let i = offset; node; i += step) {
+    for (const index of node.targets) {
+      if (isActive(index)) return index;
+    }
+    if (i < 0 || i >= text.length) break;
+    node = node.children.get(text[i]!);
+  }
+  
+  return -1;
+}
+
+/**
+ * Follows `text` down the trie from `offset` in direction `step` for as long
+ * as it matches, returning how deep it got and the node it stopped at
+ */
+function descendTrie(
+  root: TrieNode,
+  text: string,
+  offset: number,
+  step: 1 | -1
+): { depth: number; node: TrieNode } {
+  let node = root;
+  let depth = 0;
+  
+  for (let i = offset; i >= 0 && i < text.length; i += step) {
+    const child = node.children.get(text[i]!);
+    if (!child) break;
+    node = child;
+    depth++;
+  }
+  
+  return { depth, node };
+}
+
+/**
+ * Gets the index of a target below a trie node
+ */
+function firstTargetBelow(node: TrieNode): number {
+  while (node.targets.length === 0) {
+    node = node.children.values().next().value!;
+  }
+  return node.targets[0]!;
+}
+
+/**
+ * Builds a matcher for the configured targets
+ *
+ * The matcher accepts an address in any case and returns the index of the
+ * first active target it satisfies, or -1. Patterns are compiled and tries
+ * are built only once.
+ *
+ * Case-sensitive Ethereum targets are matched against the EIP-55 checksum,
+ * which costs an extra hash. A case-insensitive pass runs first, so the
+ * checksum is only computed for the rare addresses that already match
+ * ignoring case. Chains with a cased alphabet match the address as given.
+ */
+export function createMatcher(
+  config: GeneratorConfig,
+  isActive: (index: number) => boolean = () => true
+): (address: string) => number {
+  if (config.caseSensitive && getAddressFormat(config).caseMode === 'checksum') {
+    const prefilter = createExactMatcher({ ...config, caseSensitive: false }, isActive);
+    const exact = createExactMatcher(config, isActive);
+    return (address) => (prefilter(address) === -1 ? -1 : exact(checksumAddress(address as Address)));
+  }
+  
+  return createExactMatcher(config, isActive);
+}
+
+/**
+ * Builds a matcher that compares the address exactly as given
+ */
+function createExactMatcher(
+  config: GeneratorConfig,
+  isActive: (index: number) => boolean
+): (address: string) => number {
+  const targets = getTargets(config).map(target => (config.caseSensitive ? target : target.toLowerCase()));
+  const prefixLength = getAddressFormat(config).prefix.length;
+  const prepare = (address: string) =>
+    config.caseSensitive ? address.slice(prefixLength) : address.slice(prefixLength).toLowerCase();
+  
+  switch (config.searchMode) {
+    case 'pattern': {
+      const patterns = targets.map(compilePattern);
+      return (address) => {
+        const addr = prepare(address);
+        return patterns.findIndex((pattern, index) => isActive(index) && pattern.test(addr));
+      };
+    }
+    case 'end': {
+      const root = buildTrie(targets.map(target => [...target].reverse().join('')));
+      return (address) => {
+        const addr = prepare(address);
+        return walkTrie(root, addr, addr.length - 1, -1, isActive);
+      };
+    }
+    case 'anywhere': {
+      const root = buildTrie(targets);
+      return (address) => {
+        const addr = prepare(address);
+        for (let offset = 0; offset < addr.length; offset++) {
+          const index = walkTrie(root, addr, offset, 1, isActive);
+          if (index !== -1) return index;
+        }
+        return -1;
+      };
+    }
+    case 'start':
+    case 'position': {
+      const root = buildTrie(targets);
+      const offset = config.searchMode === 'position' ? config.position ?? 0 : 0;
+      return (address) => walkTrie(root, prepare(address), offset, 1, isActive);
+    }
+    default:
+      throw new Error(`Unknown search mode: ${config.searchMode}`);
+  }
+}
+
+/**
+ * How close a non-matching address came to one of the targets
+ */
+export interface NearMiss {
+  targetIndex: number;
+  /** Number of target characters matched */
+  length: number;
+}
+
+/**
+ * Builds a meter for how close addresses come to the configured targets
+ *
+ * Closeness is the longest matching prefix for 'start' and 'position', the
+ * longest matching suffix for 'end', the longest leading part of a target
+ * found anywhere for 'anywhere', and the leading and trailing pattern
+ * characters matched for 'pattern'. The meter only returns a near-miss that
+ * matches more than `better` characters.
+ *
+ * Only the targets active when the meter is built are measured, so it
+ * should be rebuilt whenever a target is satisfied.
+ */
+export function createNearMissMeter(
+  config: GeneratorConfig,
+  isActive: (index: number) => boolean = () => true
+): (address: string, better: number) => NearMiss | undefined {
+  if (config.caseSensitive && getAddressFormat(config).caseMode === 'checksum') {
+    // As with matching, only checksum addresses that are closer ignoring case
+    const prefilter = createExactMeter({ ...config, caseSensitive: false }, isActive);
+    const exact = createExactMeter(config, isActive);
+    return (address, better) => (prefilter(address, better) ? exact(checksumAddress(address as Address), better) : undefined);
+  }
+  
+  return createExactMeter(config, isActive);
+}
+
+/**
+ * Builds a near-miss meter that compares the address exactly as given
+ */
+function createExactMeter(
+  config: GeneratorConfig,
+  isActive: (index: number) => boolean
+): (address: string, better: number) => NearMiss | undefined {
+  const allTargets = getTargets(config);
+  const indices = allTargets.map((_, index) => index).filter(isActive);
+  const targets = indices.map(index => (config.caseSensitive ? allTargets[index]! : allTargets[index]!.toLowerCase()));
+  const prefixLength = getAddressFormat(config).prefix.length;
+  const prepare = (address: string) =>
+    config.caseSensitive ? address.slice(prefixLength) : address.slice(prefixLength).toLowerCase();
+  
+  switch (config.searchMode) {
+    case 'pattern': {
+      const patterns = targets.map(target =>
+        parsePattern(target).map(segment => segment.map(token => new RegExp(`^${token.source}$`)))
+      );
+      return (address, better) => {
+        const addr = prepare(address);
+        let closest: NearMiss | undefined;
+        
+        patterns.forEach((segments, targetIndex) => {
+          const first = segments[0]!;
+          let length = 0;
+          while (length < first.length && first[length]!.test(addr[length]!)) length++;
+          
+          if (segments.length > 1) {
+            const last = segments[segments.length - 1]!;
+            let trailing = 0;
+            while (trailing < last.length && last[last.length - 1 - trailing]!.test(addr[addr.length - 1 - trailing]!)) {
+              trailing++;
+            }
+            length += trailing;
+          }
+          
+          if (length > (closest?.length ?? better)) {
+            closest = { targetIndex: indices[targetIndex]!, length };
+          }
+        });
+        
+        return closest;
+      };
+    }
+    case 'end': {
+      const root = buildTrie(targets.map(target => [...target].reverse().join('')));
+      return (address, better) => {
+        const addr = prepare(address);
+        const { depth, node } = descendTrie(root, addr, addr.length - 1, -1);
+        return depth > better ? { targetIndex: indices[firstTargetBelow(node)]!, length: depth } : undefined;
+      };
+    }
+    case 'anywhere': {
+      const root = buildTrie(targets);
+      return (address, better) => {
+        const addr = prepare(address);
+        let closest: NearMiss | undefined;
+        for (let offset = 0; offset < addr.length; offset++) {
+          const { depth, node } = descendTrie(root, addr, offset, 1);
+          if (depth > (closest?.length ?? better)) {
+            closest = { targetIndex: indices[firstTargetBelow(node)]!, length: depth };
+          }
+        }
+        return closest;
+      };
+    }
+    case 'start':
+    case 'position': {
+      const root = buildTrie(targets);
+      const offset = config.searchMode === 'position' ? config.position ?? 0 : 0;
+      return (address, better) => {
+        const { depth, node } = descendTrie(root, prepare(address), offset, 1);
+        return depth > better ? { targetIndex: indices[firstTargetBelow(node)]!, length: depth } : undefined;
+      };
+    }
+    default:
+      throw new Error(`Unknown search mode: ${config.searchMode}`);
+  }
+}
@@ -0,0 +1,26 @@
+import { closeSync, fchmodSync, openSync, writeSync } from 'fs';
+import type { JsonReport, OutputRecord } from './types.js';
+
+/**
+ * Appends text to a file readable by the owner only
+ *
+ * Each write is synchronous, so earlier results survive a crash. The file is
+ * created with 0600 permissions, and an existing file is narrowed to them
+ * before anything is written to it.
+ */
+export function appendPrivate(path: string, text: string): void {
+  const fd = openSync(path, 'a', 0o600);
+  try {
+    fchmodSync(fd, 0o600);
+    writeSync(fd, text);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Writes a JSON record or report to stdout as a single line
+ */
+export function writeRecord(record: OutputRecord | JsonReport): void {
+  process.stdout.write(JSON.stringify(record) + '\n');
+}
@@ -0,0 +1,115 @@
+import { readFileSync } from 'fs';
+import type { PasswordOptions } from './types.js';
+
+/**
+ * Prompts for a password on the terminal without echoing it
+ */
+export function promptPassword(prompt: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error('Cannot prompt for a password without a terminal; use --password-env or --password-file'));
+  }
+  
+  return new Promise((resolve, reject) => {
+    let password = '';
+    
+    const cleanup = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write('\n');
+    };
+    
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          cleanup();
+          resolve(password);
+          return;
+        }
+        if (char === '\u0003') {
+          cleanup();
+          reject(new Error('Password entry cancelled'));
+          return;
+        }
+        if (char === '\u007f' || char === '\b') {
+          password = password.slice(0, -1);
+        } else {
+          password += char;
+        }
+      }
+    };
+    
+    process.stdout.write(prompt);
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf8');
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Waits for Enter on the terminal, rejecting on Ctrl+C
+ */
+export function waitForEnter(prompt: string): Promise<void> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error('Cannot ask for confirmation without a terminal'));
+  }
+  
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write('\n');
+    };
+    
+    const onData = (chunk: string) => {
+      if (chunk.includes('\u0003')) {
+        cleanup();
+        reject(new Error('Cancelled'));
+      } else if (chunk.includes('\r') || chunk.includes('\n')) {
+        cleanup();
+        resolve();
+      }
+    };
+    
+    process.stdout.write(prompt);
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf8');
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Resolves a keystore password from an environment variable, a file or an interactive prompt
+ *
+ * When prompting for a new password (`confirm`), it is asked for twice and must match.
+ */
+export async function resolvePassword(options: PasswordOptions, confirm = false): Promise<string> {
+  if (options.passwordEnv) {
+    const password = process.env[options.passwordEnv];
+    if (password === undefined) {
+      throw new Error(`Environment variable ${options.passwordEnv} is not set`);
+    }
+    return password;
+  }
+  
+  if (options.passwordFile) {
+    return readFileSync(options.passwordFile, 'utf8').replace(/\r?\n$/, '');
+  }
+  
+  const password = await promptPassword('Keystore password: ');
+  if (confirm) {
+    const repeated = await promptPassword('Repeat password: ');
+    if (repeated !== password) {
+      throw new Error('Passwords do not match');
+    }
+  }
+  if (password.length === 0) {
+    throw new Error('Password cannot be empty');
+  }
+  return password;
+}
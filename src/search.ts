@@ -0,0 +1,403 @@
+import { privateKeyToAccount, publicKeyToAddress } from 'viem/accounts';
+import { checksumAddress, getContractAddress, hexToBytes, toHex, type Address, type Hex } from 'viem';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { invert } from '@noble/curves/abstract/modular';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { HDKey } from '@scure/bip32';
+import { generateMnemonic, mnemonicToSeedSync } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { generateTaprootKey, toBitcoinAddress, toWif } from './bitcoin.js';
+import type { AttemptCounter } from './counters.js';
+import { createMatcher, createNearMissMeter } from './matcher.js';
+import { sealSecret } from './secrets.js';
+import { createSmartAccountMiner, isSmartAccountType } from './smartaccount.js';
+import { generateSolanaKeypair } from './solana.js';
+import { toTronAddress } from './tron.js';
+import { createScorer, DEFAULT_DERIVATION_PATH, getMatchesPerTarget, getTargets } from './utils.js';
+import type { GeneratorConfig, ResultSecret, WorkerResult } from './types.js';
+
+const BATCH_SIZE = 256;
+const HEX_BYTES = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, '0'));
+
+const { ProjectivePoint, CURVE } = secp256k1;
+const FIELD_ORDER = CURVE.Fp.ORDER;
+
+type CandidateData = Omit<NonNullable<WorkerResult['data']>, 'targetIndex' | 'score' | 'secret'> & ResultSecret;
+
+/**
+ * An address produced by one attempt
+ *
+ * Candidates from the point walk carry only the address; `resolve` rebuilds
+ * the secret for a hit and checks that it derives the address before
+ * anything is reported.
+ */
+interface Candidate extends CandidateData {
+  resolve?: () => CandidateData;
+}
+
+interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+let multiplesOfG: AffinePoint[] | undefined;
+
+function modP(a: bigint): bigint {
+  const r = a % FIELD_ORDER;
+  return r >= 0n ? r : r + FIELD_ORDER;
+}
+
+/**
+ * Affine G, 2G, ..., BG, computed once per worker
+ */
+function getMultiplesOfG(): AffinePoint[] {
+  if (!multiplesOfG) {
+    const points = [];
+    let point = ProjectivePoint.BASE;
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      points.push(point);
+      point = point.add(ProjectivePoint.BASE);
+    }
+    multiplesOfG = ProjectivePoint.normalizeZ(points).map(p => p.toAffine());
+  }
+  return multiplesOfG;
+}
+
+function writeUint256(view: DataView, offset: number, value: bigint): void {
+  for (let i = 0; i < 4; i++) {
+    view.setBigUint64(offset + 24 - i * 8, BigInt.asUintN(64, value >> BigInt(i * 64)));
+  }
+}
+
+/**
+ * Encodes an uncompressed public key (x || y) as a lowercase Ethereum address
+ */
+function toEthereumAddress(point: Uint8Array): string {
+  const hash = keccak_256(point);
+  let address = '0x';
+  for (let i = 12; i < 32; i++) address += HEX_BYTES[hash[i]!];
+  return address;
+}
+
+/**
+ * Gets the encoding of walked public keys into addresses for the configured chain
+ */
+function getPointEncoder(config: GeneratorConfig): (point: Uint8Array) => string {
+  switch (config.chain) {
+    case 'tron':
+      return toTronAddress;
+    case 'bitcoin': {
+      const format = config.bitcoinFormat === 'p2pkh' ? 'p2pkh' : 'p2wpkh';
+      return (point) => toBitcoinAddress(point, format);
+    }
+    default:
+      return toEthereumAddress;
+  }
+}
+
+/**
+ * Walks the points start+G, start+2G, ... returning the next address along
+ * with how many steps from start it is
+ *
+ * Each step is an affine point addition instead of a full scalar
+ * multiplication, and the B additions in a batch share one modular inversion
+ * (Montgomery's trick). Points are encoded from raw bytes.
+ */
+function createPointWalker(
+  start: InstanceType<typeof ProjectivePoint>,
+  encode: (point: Uint8Array) => string
+): () => { address: string; steps: number } {
+  const multiples = getMultiplesOfG();
+  const dxs = new Array<bigint>(BATCH_SIZE);
+  const products = new Array<bigint>(BATCH_SIZE);
+  const xs = new Array<bigint>(BATCH_SIZE);
+  const ys = new Array<bigint>(BATCH_SIZE);
+  const buffer = new Uint8Array(64);
+  const view = new DataView(buffer.buffer);
+  let { x: baseX, y: baseY } = start.toAffine();
+  let baseSteps = 0;
+  let batchSteps = 0;
+  let index = BATCH_SIZE;
+
+  // Computes base+G ... base+BG, then moves the base to the last of them
+  const nextBatch = () => {
+    let product = 1n;
+    for (let j = 0; j < BATCH_SIZE; j++) {
+      const dx = modP(multiples[j]!.x - baseX);
+      if (dx === 0n) throw new Error('Point walk reached a multiple of G');
+      product = (product * dx) % FIELD_ORDER;
+      dxs[j] = dx;
+      products[j] = product;
+    }
+
+    let inverse = invert(product, FIELD_ORDER);
+    for (let j = BATCH_SIZE - 1; j >= 0; j--) {
+      const inverseDx = j > 0 ? (inverse * products[j - 1]!) % FIELD_ORDER : inverse;
+      inverse = (inverse * dxs[j]!) % FIELD_ORDER;
+
+      const lambda = modP((multiples[j]!.y - baseY) * inverseDx);
+      const x = modP(lambda * lambda - baseX - multiples[j]!.x);
+      xs[j] = x;
+      ys[j] = modP(lambda * (baseX - x) - baseY);
+    }
+
+    batchSteps = baseSteps;
+    baseSteps += BATCH_SIZE;
+    baseX = xs[BATCH_SIZE - 1]!;
+    baseY = ys[BATCH_SIZE - 1]!;
+    index = 0;
+  };
+
+  return () => {
+    if (index === BATCH_SIZE) nextBatch();
+
+    writeUint256(view, 0, xs[index]!);
+    writeUint256(view, 32, ys[index]!);
+    const address = encode(buffer);
+
+    index++;
+    return { address, steps: batchSteps + index };
+  };
+}
+
+/**
+ * Walks consecutive private keys (or split-key partial keys) from a random start
+ *
+ * The walk restarts from a fresh random key after every reported hit, since
+ * two keys from the same walk differ by a small offset and leaking one would
+ * give away the other. Keys are exported in the chain's own format.
+ */
+function createKeyWalker(config: GeneratorConfig): () => Candidate[] {
+  const encode = getPointEncoder(config);
+  const isSplitKey = config.addressType === 'split-key';
+  const publicKey = isSplitKey ? ProjectivePoint.fromHex(config.publicKey!.slice(2)) : undefined;
+  const nonceCount = config.addressType === 'create' ? config.nonceCount ?? 1 : 0;
+  let baseKey = 0n;
+  let nextPoint = () => ({ address: '', steps: 0 });
+
+  const reseed = () => {
+    baseKey = BigInt(toHex(secp256k1.utils.randomPrivateKey()));
+    const start = ProjectivePoint.BASE.multiply(baseKey);
+    nextPoint = createPointWalker(publicKey ? publicKey.add(start) : start, encode);
+  };
+  reseed();
+
+  return () => {
+    const { address, steps } = nextPoint();
+    const walkKey = baseKey;
+    const resolveKey = (): CandidateData => {
+      reseed();
+      const key = (walkKey + BigInt(steps)) % CURVE.n;
+      if (config.chain === 'tron' || config.chain === 'bitcoin') {
+        const secret = hexToBytes(toHex(key, { size: 32 }));
+        if (encode(secp256k1.getPublicKey(secret, false).subarray(1)) !== address) {
+          throw new Error('Point walk produced a private key that does not match its address');
+        }
+        return config.chain === 'tron'
+          ? { address, privateKey: toHex(secret).slice(2) }
+          : { address, wif: toWif(secret) };
+      }
+      
+      const expected = checksumAddress(address as Address);
+      if (publicKey) {
+        const combined = publicKey.add(ProjectivePoint.BASE.multiply(key));
+        if (publicKeyToAddress(`0x${combined.toHex(false)}`) !== expected) {
+          throw new Error('Point walk produced a partial key that does not match its address');
+        }
+        return { address: expected, partialKey: toHex(key, { size: 32 }) };
+      }
+      const privateKey = toHex(key, { size: 32 });
+      if (privateKeyToAccount(privateKey).address !== expected) {
+        throw new Error('Point walk produced a private key that does not match its address');
+      }
+      return { address: expected, privateKey };
+    };
+
+    if (nonceCount === 0) {
+      // Case-sensitive matchers checksum the address themselves, and only for hits
+      return [{ address, resolve: resolveKey }];
+    }
+
+    const candidates: Candidate[] = [];
+    for (let nonce = 0; nonce < nonceCount; nonce++) {
+      const contract = getContractAddress({ opcode: 'CREATE', from: address as Address, nonce: BigInt(nonce) });
+      candidates.push({
+        address: contract,
+        resolve: () => {
+          const { address: deployer, privateKey } = resolveKey();
+          return { address: contract, privateKey, deployer, nonce };
+        }
+      });
+    }
+    return candidates;
+  };
+}
+
+/**
+ * Creates a candidate source that mines the factory salt of a smart account
+ *
+ * The owner set is fixed per run, so the init code hash and the hash of the
+ * Safe setup call are computed once and each attempt costs two hashes.
+ */
+function createSaltMiner(config: GeneratorConfig): () => Candidate[] {
+  const miner = createSmartAccountMiner(config);
+  return () => {
+    const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
+    const address = getContractAddress({
+      opcode: 'CREATE2',
+      from: miner.factory,
+      salt: miner.getSalt(nonce),
+      bytecodeHash: miner.initCodeHash
+    });
+    return [{ address, resolve: () => ({ address, deployment: miner.getDeployment(nonce) }) }];
+  };
+}
+
+/**
+ * Produces the candidates for one attempt of the types that are not walked
+ * along the curve, along with the secret that generates them
+ */
+function generateCandidates(config: GeneratorConfig): Candidate[] {
+  if (config.chain === 'solana') {
+    return [generateSolanaKeypair()];
+  }
+  
+  if (config.chain === 'bitcoin' && config.bitcoinFormat === 'p2tr') {
+    return [generateTaprootKey()];
+  }
+  
+  if (config.addressType === 'create2') {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(32)));
+    const address = getContractAddress({
+      opcode: 'CREATE2',
+      from: config.deployer as Address,
+      salt,
+      bytecodeHash: config.initCodeHash as Hex
+    });
+    return [{ address, salt }];
+  }
+
+  if (config.addressType === 'mnemonic') {
+    const mnemonic = generateMnemonic(wordlist, config.mnemonicWords === 24 ? 256 : 128);
+    const root = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic, config.passphrase ?? ''));
+    const candidates: Candidate[] = [];
+    const accountCount = config.accountCount ?? 1;
+    for (let index = 0; index < accountCount; index++) {
+      const derivationPath = (config.derivationPath ?? DEFAULT_DERIVATION_PATH).replace('{index}', String(index));
+      const privateKey = toHex(root.derive(derivationPath).privateKey!);
+      const address = privateKeyToAccount(privateKey).address;
+      candidates.push({ address, privateKey, mnemonic, derivationPath });
+    }
+    return candidates;
+  }
+
+  throw new Error(`Unsupported address type for candidate generation: ${config.addressType}`);
+}
+
+/**
+ * Resolves a candidate into the data posted for it, with its secret sealed
+ */
+function resolveCandidate(candidate: Candidate): Omit<CandidateData, keyof ResultSecret> & { secret?: Uint8Array } {
+  return sealSecret<CandidateData>(candidate.resolve ? candidate.resolve() : candidate);
+}
+
+/**
+ * Runs the search loop inside a worker, posting results as they are found
+ *
+ * Each target is deactivated once this worker has found enough matches for
+ * it; in 'score' mode every address that makes this worker's own top K is
+ * reported instead. When the run has a budget, every address that comes
+ * closer to a target than this worker's previous near-miss is reported too.
+ *
+ * Every attempt is claimed in shared memory before it is made, which checks
+ * the stop flag and the attempt budget, so anything it finds is posted after
+ * it has been counted.
+ */
+export function runSearch(
+  config: GeneratorConfig,
+  post: (result: WorkerResult) => void,
+  counter: AttemptCounter
+): void {
+  const targetCount = getTargets(config).length;
+  const matchesPerTarget = getMatchesPerTarget(config);
+  const foundCounts = new Array<number>(targetCount).fill(0);
+  const active = new Array<boolean>(targetCount).fill(true);
+  let remaining = targetCount;
+  const scoreAddress = config.searchMode === 'score'
+    ? createScorer(config.scoreRule ?? 'leading-zeros', config.scoreExpression)
+    : undefined;
+  const topK = config.topK ?? 10;
+  const localScores: number[] = [];
+  const matches = scoreAddress ? undefined : createMatcher(config, index => active[index]!);
+  const hasBudget = config.maxTime !== undefined || config.maxAttempts !== undefined;
+  const createMeter = () => createNearMissMeter(config, index => active[index]!);
+  let measureNearMiss = !scoreAddress && hasBudget ? createMeter() : undefined;
+  let nearest = 0;
+  const walksKeys = config.chain !== 'solana' && !(config.chain === 'bitcoin' && config.bitcoinFormat === 'p2tr')
+    && config.addressType !== 'create2' && config.addressType !== 'mnemonic';
+  const nextCandidates = isSmartAccountType(config.addressType)
+    ? createSaltMiner(config)
+    : walksKeys ? createKeyWalker(config) : () => generateCandidates(config);
+
+  while (remaining > 0 && counter.claim()) {
+    const candidates = nextCandidates();
+
+    for (const candidate of candidates) {
+      if (scoreAddress) {
+        // Only report scores that make this worker's own top K
+        const score = scoreAddress(candidate.address);
+        if (localScores.length >= topK && score <= localScores[topK - 1]!) continue;
+
+        localScores.push(score);
+        localScores.sort((a, b) => b - a);
+        localScores.length = Math.min(localScores.length, topK);
+
+        post({
+          type: 'scored',
+          data: {
+            ...resolveCandidate(candidate),
+            score,
+            targetIndex: 0
+          }
+        });
+        continue;
+      }
+
+      const targetIndex = matches!(candidate.address);
+      if (targetIndex === -1) {
+        const nearMiss = measureNearMiss?.(candidate.address, nearest);
+        if (nearMiss) {
+          nearest = nearMiss.length;
+          post({
+            type: 'near-miss',
+            data: {
+              ...resolveCandidate(candidate),
+              targetIndex: nearMiss.targetIndex,
+              matchedLength: nearMiss.length
+            }
+          });
+        }
+        continue;
+      }
+
+      post({
+        type: 'found',
+        data: {
+          ...resolveCandidate(candidate),
+          targetIndex
+        }
+      });
+      foundCounts[targetIndex]!++;
+      if (foundCounts[targetIndex]! >= matchesPerTarget) {
+        active[targetIndex] = false;
+        remaining--;
+        if (measureNearMiss) {
+          // Near-misses only count against the targets still being searched for
+          measureNearMiss = createMeter();
+          nearest = 0;
+        }
+      }
+      break;
+    }
+  }
+}
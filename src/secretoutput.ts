@@ -0,0 +1,132 @@
+import { spawn } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { appendPrivate } from './output.js';
+import type { VanityAddressResult } from './types.js';
+
+/**
+ * A result, or the part of one a command has, to write
+ */
+type SecretRecord = Partial<VanityAddressResult> & { address: string };
+
+/**
+ * Where the records holding key material are written
+ */
+export interface SecretOutputOptions {
+  /** File to append each record to, readable by the owner only */
+  file?: string;
+  /** Shell command each record is piped to on stdin */
+  command?: string;
+  /** age recipient, or a file of age recipients or an armored PGP public key, to encrypt each record to */
+  recipient?: string;
+}
+
+/**
+ * A destination for records holding key material
+ *
+ * Writes are queued so records arrive in order; `flush` waits for them and
+ * rejects with the first that failed.
+ */
+export interface SecretOutput {
+  /** Where records go, for messages */
+  description: string;
+  /** Queues a record for writing */
+  write(record: SecretRecord): void;
+  /** Waits for every queued record to be written */
+  flush(): Promise<void>;
+}
+
+/**
+ * Sets up encryption to an age or PGP recipient
+ *
+ * age output is ASCII-armored, like PGP's, so records stay text.
+ */
+async function createEncrypter(recipient: string): Promise<(text: string) => Promise<string>> {
+  const key = existsSync(recipient) ? readFileSync(recipient, 'utf8').trim() : recipient.trim();
+
+  if (key.startsWith('-----BEGIN PGP PUBLIC KEY BLOCK-----')) {
+    const openpgp = await import('openpgp');
+    const encryptionKeys = await openpgp.readKey({ armoredKey: key });
+    return async text => openpgp.encrypt({ message: await openpgp.createMessage({ text }), encryptionKeys });
+  }
+
+  const { Encrypter, armor } = await import('age-encryption');
+  const encrypter = new Encrypter();
+  const lines = key.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  try {
+    if (lines.length === 0) {
+      throw new Error('no recipients');
+    }
+    lines.forEach(line => encrypter.addRecipient(line));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid recipient: ${reason}. Must be an age recipient (age1...), or a file holding age recipients or an armored PGP public key`);
+  }
+  return async text => armor.encode(await encrypter.encrypt(text));
+}
+
+/**
+ * Pipes text to a shell command's stdin
+ *
+ * The command's own output goes to stderr, keeping stdout for results. The
+ * record's address is passed in V4N1TY_ADDRESS, for commands that store
+ * each secret under its own name.
+ */
+function pipeToCommand(command: string, text: string, address: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 2, 2],
+      env: { ...process.env, V4N1TY_ADDRESS: address }
+    });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Secrets command exited with code ${code}`));
+      }
+    });
+    // A command that exits without reading is reported by its exit code
+    child.stdin!.on('error', () => {});
+    child.stdin!.end(text);
+  });
+}
+
+/**
+ * Creates the destination for records holding key material
+ *
+ * Each record is written as a line of JSON, or as an armored block when it
+ * is encrypted, to the file and the command as configured.
+ */
+export async function createSecretOutput(options: SecretOutputOptions): Promise<SecretOutput> {
+  const { file, command, recipient } = options;
+  const encrypt = recipient ? await createEncrypter(recipient) : undefined;
+  const destinations = [file, command && `\`${command}\``].filter(Boolean).join(' and ');
+  let queue = Promise.resolve();
+  let failure: { error: unknown } | undefined;
+
+  const writeRecord = async (record: SecretRecord) => {
+    const json = JSON.stringify(record);
+    const text = encrypt ? await encrypt(json) : json + '\n';
+    if (file) {
+      appendPrivate(file, text);
+    }
+    if (command) {
+      await pipeToCommand(command, text, record.address);
+    }
+  };
+
+  return {
+    description: encrypt ? `${destinations}, encrypted` : destinations,
+    write(record) {
+      queue = queue.then(() => writeRecord(record)).catch(error => {
+        const reason = error instanceof Error ? error.message : String(error);
+        failure ??= { error: new Error(`Could not write the secret for ${record.address}: ${reason}`) };
+      });
+    },
+    async flush() {
+      await queue;
+      if (failure) throw failure.error;
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import type { ResultSecret } from './types.js';
+
+/**
+ * Result fields that hold key material
+ *
+ * A split-key search's partial key is not one of them: it is meant to be
+ * handed to the requester and is useless without their secret.
+ */
+export const SECRET_FIELDS = ['privateKey', 'mnemonic', 'keypair', 'wif'] as const;
+
+/**
+ * Checks whether a result carries any key material
+ */
+export function hasSecret(result: ResultSecret): boolean {
+  return SECRET_FIELDS.some(field => result[field] !== undefined);
+}
+
+/**
+ * Copies a result without its key material
+ */
+export function redactSecret<T extends ResultSecret>(result: T): T {
+  const { privateKey, mnemonic, keypair, wif, ...rest } = result;
+  return rest as T;
+}
+
+/**
+ * Moves a candidate's key material into a byte buffer
+ *
+ * Workers post the buffer as a transferable, so the only copy of the secret
+ * crossing threads is one the receiver can wipe once it has read it.
+ */
+export function sealSecret<T extends ResultSecret>(data: T): Omit<T, keyof ResultSecret> & { secret?: Uint8Array } {
+  const { privateKey, mnemonic, keypair, wif, ...rest } = data;
+  const secret = { privateKey, mnemonic, keypair, wif };
+  return hasSecret(secret) ? { ...rest, secret: new TextEncoder().encode(JSON.stringify(secret)) } : rest;
+}
+
+/**
+ * Reads the key material out of a sealed buffer
+ */
+export function unsealSecret(secret: Uint8Array | undefined): ResultSecret {
+  return secret ? JSON.parse(new TextDecoder().decode(secret)) : {};
+}
+
+/**
+ * Overwrites a sealed buffer once its key material has been read
+ */
+export function wipeSecret(secret: Uint8Array | undefined): void {
+  secret?.fill(0);
+}
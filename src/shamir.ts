@@ -0,0 +1,166 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { Field } from '@noble/curves/abstract/modular';
+import { bytesToNumberBE, numberToBytesBE } from '@noble/curves/abstract/utils';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes } from 'viem';
+import { fromWif, toWif } from './bitcoin.js';
+import { deriveAddress } from './verify.js';
+import type { BitcoinFormat, ChainId, KeyShare, ResultSecret, ShareScheme, VanityAddressResult } from './types.js';
+
+/**
+ * Largest number of shares a key can be split into
+ */
+export const MAX_SHARES = 255;
+
+/**
+ * Shares are points on a polynomial over the secp256k1 scalar field, so every
+ * share is a valid-looking 32-byte scalar and reveals nothing on its own
+ */
+const Fn = Field(secp256k1.CURVE.n);
+
+/**
+ * Gets the secp256k1 key behind a result's secret, as it is stored for its chain
+ */
+function getKeyBytes(result: ResultSecret, chain: ChainId): Uint8Array {
+  if (chain === 'bitcoin' && result.wif) {
+    return fromWif(result.wif);
+  }
+  if (!result.privateKey) {
+    throw new Error('Only results with a single private key can be split into shares');
+  }
+  return hexToBytes(chain === 'tron' ? `0x${result.privateKey}` : result.privateKey as `0x${string}`);
+}
+
+/**
+ * Formats a recovered key the way results on its chain carry it
+ */
+function toResultSecret(key: Uint8Array, chain: ChainId): ResultSecret {
+  switch (chain) {
+    case 'bitcoin':
+      return { wif: toWif(key) };
+    case 'tron':
+      return { privateKey: bytesToHex(key).slice(2) };
+    default:
+      return { privateKey: bytesToHex(key) };
+  }
+}
+
+/**
+ * Splits a secret scalar into shares, any `threshold` of which recover it
+ *
+ * The secret is the constant term of a random polynomial of degree
+ * `threshold - 1`; share i is its value at x = i.
+ */
+export function splitSecret(secret: Uint8Array, { threshold, shares }: ShareScheme): Uint8Array[] {
+  if (threshold < 2 || threshold > shares || shares > MAX_SHARES) {
+    throw new Error(`Cannot split into ${threshold}-of-${shares} shares`);
+  }
+  const coefficients = [Fn.create(bytesToNumberBE(secret))];
+  for (let i = 1; i < threshold; i++) {
+    coefficients.push(bytesToNumberBE(secp256k1.utils.randomPrivateKey()));
+  }
+
+  return Array.from({ length: shares }, (_, i) => {
+    const x = BigInt(i + 1);
+    // Horner's rule, from the highest coefficient down
+    const y = coefficients.reduceRight((sum, coefficient) => Fn.add(Fn.mul(sum, x), coefficient), Fn.ZERO);
+    return numberToBytesBE(y, 32);
+  });
+}
+
+/**
+ * Recovers a secret scalar from shares by Lagrange interpolation at x = 0
+ *
+ * Any `threshold` distinct shares give the secret; fewer give an unrelated
+ * scalar, so the result needs checking against something the secret derives.
+ */
+export function combineShares(shares: { index: number; value: Uint8Array }[]): Uint8Array {
+  let secret = Fn.ZERO;
+  for (const { index, value } of shares) {
+    const xi = BigInt(index);
+    let numerator = Fn.ONE;
+    let denominator = Fn.ONE;
+    for (const other of shares) {
+      if (other.index === index) continue;
+      const xj = BigInt(other.index);
+      numerator = Fn.mul(numerator, xj);
+      denominator = Fn.mul(denominator, Fn.sub(xj, xi));
+    }
+    secret = Fn.add(secret, Fn.mul(bytesToNumberBE(value), Fn.div(numerator, denominator)));
+  }
+  return numberToBytesBE(secret, 32);
+}
+
+/**
+ * Splits the key behind a found result into share records
+ */
+export function splitResultKey(
+  result: VanityAddressResult,
+  scheme: ShareScheme,
+  chain: ChainId = 'ethereum',
+  bitcoinFormat?: BitcoinFormat
+): KeyShare[] {
+  const values = splitSecret(getKeyBytes(result, chain), scheme);
+  return values.map((value, i) => ({
+    address: result.address,
+    chain,
+    ...(chain === 'bitcoin' && { bitcoinFormat: bitcoinFormat ?? 'p2wpkh' }),
+    threshold: scheme.threshold,
+    shares: scheme.shares,
+    index: i + 1,
+    share: bytesToHex(value)
+  }));
+}
+
+/**
+ * Writes a share into its own file, returning the file path
+ *
+ * `{index}` in the directory gives each share a directory of its own, such
+ * as a separate drive per holder.
+ */
+export function writeShare(directory: string, share: KeyShare): string {
+  const path = join(directory.replaceAll('{index}', String(share.index)), `${share.address}-share-${share.index}-of-${share.shares}.json`);
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(share, null, 2) + '\n', { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+  return path;
+}
+
+/**
+ * Recovers a key from its shares and checks it derives the address they record
+ *
+ * The shares must come from the same split, be distinct and reach its
+ * threshold.
+ */
+export function recoverKey(shares: KeyShare[]): ResultSecret & { address: string } {
+  const [first] = shares;
+  if (!first) {
+    throw new Error('No shares given');
+  }
+  for (const share of shares) {
+    if (share.address !== first.address || share.chain !== first.chain || share.threshold !== first.threshold || share.shares !== first.shares) {
+      const describe = (s: KeyShare) => `${s.address} ${s.threshold}-of-${s.shares} on ${s.chain}`;
+      throw new Error(`Shares come from different splits: ${describe(first)} and ${describe(share)}`);
+    }
+    if (!Number.isInteger(share.index) || share.index < 1 || share.index > share.shares) {
+      throw new Error(`Share index ${share.index} is outside 1-${share.shares}`);
+    }
+  }
+  const indexes = new Set(shares.map(share => share.index));
+  if (indexes.size !== shares.length) {
+    throw new Error('The same share was given more than once');
+  }
+  if (indexes.size < first.threshold) {
+    throw new Error(`Need ${first.threshold} of ${first.shares} shares to recover the key, got ${indexes.size}`);
+  }
+
+  const key = combineShares(shares.map(share => ({ index: share.index, value: hexToBytes(share.share) })));
+  const secret = toResultSecret(key, first.chain);
+  const derived = deriveAddress(secret, { chain: first.chain, bitcoinFormat: first.bitcoinFormat });
+  const matches = first.chain === 'ethereum' ? derived?.toLowerCase() === first.address.toLowerCase() : derived === first.address;
+  if (!matches) {
+    throw new Error(`Recovered key derives ${derived}, not ${first.address}; the shares do not belong together`);
+  }
+
+  return { address: first.address, ...secret };
+}
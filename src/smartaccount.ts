@@ -0,0 +1,336 @@
+import {
+  concat,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  getContractAddress,
+  keccak256,
+  parseAbi,
+  toHex,
+  type Address,
+  type Hex
+} from 'viem';
+import type { GeneratorConfig, SmartAccountDeployment, SmartAccountType } from './types.js';
+
+/**
+ * Creation code of the Safe proxy, as returned by the factory's proxyCreationCode()
+ */
+const SAFE_PROXY_CREATION_CODE: Record<string, Hex> = {
+  '1.3.0': (
+  '0x' +
+  '608060405234801561001057600080fd5b506040516101e63803806101e6833981810160405260208110156100335760' +
+  '0080fd5b8101908080519060200190929190505050600073ffffffffffffffffffffffffffffffffffffffff168173ff' +
+  'ffffffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a00000000000000000000000000000' +
+  '000000000000000000000000000081526004018080602001828103825260228152602001806101c46022913960400191' +
+  '505060405180910390fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffffffff0219169083' +
+  '73ffffffffffffffffffffffffffffffffffffffff1602179055505060ab806101196000396000f3fe608060405273ff' +
+  'ffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000' +
+  '000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e600081' +
+  '14156070573d6000fd5b3d6000f3fea2646970667358221220d1429297349653a4918076d650332de1a1068c5f3e07c5' +
+  'c82360c277770b955264736f6c63430007060033496e76616c69642073696e676c65746f6e2061646472657373207072' +
+  '6f7669646564'
+) as Hex,
+  '1.4.1': (
+  '0x' +
+  '608060405234801561001057600080fd5b506040516101e63803806101e6833981810160405260208110156100335760' +
+  '0080fd5b8101908080519060200190929190505050600073ffffffffffffffffffffffffffffffffffffffff168173ff' +
+  'ffffffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a00000000000000000000000000000' +
+  '000000000000000000000000000081526004018080602001828103825260228152602001806101c46022913960400191' +
+  '505060405180910390fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffffffff0219169083' +
+  '73ffffffffffffffffffffffffffffffffffffffff1602179055505060ab806101196000396000f3fe608060405273ff' +
+  'ffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000' +
+  '000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e600081' +
+  '14156070573d6000fd5b3d6000f3fea264697066735822122003d1488ee65e08fa41e58e888a9865554c535f2c77126a' +
+  '82cb4c0f917f31441364736f6c63430007060033496e76616c69642073696e676c65746f6e2061646472657373207072' +
+  '6f7669646564'
+) as Hex
+};
+
+/**
+ * Creation code of the ERC1967Proxy that SimpleAccountFactory deploys
+ */
+const ERC1967_PROXY_CREATION_CODE: Record<string, Hex> = {
+  '0.6': (
+  '0x' +
+  '60806040526040516107c13803806107c183398101604081905261002291610321565b61002e82826000610035565b50' +
+  '5061043e565b61003e8361006b565b60008251118061004b5750805b156100665761006483836100ab60201b61002917' +
+  '60201c565b505b505050565b610074816100d7565b6040516001600160a01b038216907fbc7cd75a20ee27fd9adebab3' +
+  '2041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a250565b60606100d0838360405180606001604052806027' +
+  '815260200161079a602791396101a9565b9392505050565b6100ea8161022260201b6100551760201c565b6101515760' +
+  '405162461bcd60e51b815260206004820152602d60248201527f455243313936373a206e657720696d706c656d656e74' +
+  '6174696f6e206973206e60448201526c1bdd08184818dbdb9d1c9858dd609a1b60648201526084015b60405180910390' +
+  'fd5b806101887f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc60001b61023160201b' +
+  '6100711760201c565b80546001600160a01b0319166001600160a01b039290921691909117905550565b606060008085' +
+  '6001600160a01b0316856040516101c691906103ef565b600060405180830381855af49150503d806000811461020157' +
+  '6040519150601f19603f3d011682016040523d82523d6000602084013e610206565b606091505b509092509050610218' +
+  '86838387610234565b9695505050505050565b6001600160a01b03163b151590565b90565b606083156102a357825160' +
+  '000361029c576001600160a01b0385163b61029c5760405162461bcd60e51b815260206004820152601d60248201527f' +
+  '416464726573733a2063616c6c20746f206e6f6e2d636f6e74726163740000006044820152606401610148565b508161' +
+  '02ad565b6102ad83836102b5565b949350505050565b8151156102c55781518083602001fd5b8060405162461bcd60e5' +
+  '1b8152600401610148919061040b565b634e487b7160e01b600052604160045260246000fd5b60005b83811015610310' +
+  '5781810151838201526020016102f8565b838111156100645750506000910152565b6000806040838503121561033457' +
+  '600080fd5b82516001600160a01b038116811461034b57600080fd5b60208401519092506001600160401b0380821115' +
+  '61036857600080fd5b818501915085601f83011261037c57600080fd5b81518181111561038e5761038e6102df565b60' +
+  '4051601f8201601f19908116603f011681019083821181831017156103b6576103b66102df565b816040528281528860' +
+  '208487010111156103cf57600080fd5b6103e08360208301602088016102f5565b80955050505050509250929050565b' +
+  '600082516104018184602087016102f5565b9190910192915050565b602081526000825180602084015261042a816040' +
+  '8501602087016102f5565b601f01601f19169190910160400192915050565b61034d8061044d6000396000f3fe608060' +
+  '40523661001357610011610017565b005b6100115b610027610022610074565b6100b9565b565b606061004e83836040' +
+  '518060600160405280602781526020016102f1602791396100dd565b9392505050565b73ffffffffffffffffffffffff' +
+  'ffffffffffffffff163b151590565b90565b60006100b47f360894a13ba1a3210667c828492db98dca3e2076cc3735a9' +
+  '20a3ca505d382bbc5473ffffffffffffffffffffffffffffffffffffffff1690565b905090565b366000803760008036' +
+  '6000845af43d6000803e8080156100d8573d6000f35b3d6000fd5b60606000808573ffffffffffffffffffffffffffff' +
+  'ffffffffffff16856040516101079190610283565b600060405180830381855af49150503d8060008114610142576040' +
+  '519150601f19603f3d011682016040523d82523d6000602084013e610147565b606091505b5091509150610158868383' +
+  '87610162565b9695505050505050565b606083156101fd5782516000036101f65773ffffffffffffffffffffffffffff' +
+  'ffffffffffff85163b6101f6576040517f08c379a0000000000000000000000000000000000000000000000000000000' +
+  '00815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e747261637400' +
+  '000060448201526064015b60405180910390fd5b5081610207565b610207838361020f565b949350505050565b815115' +
+  '61021f5781518083602001fd5b806040517f08c379a00000000000000000000000000000000000000000000000000000' +
+  '000081526004016101ed919061029f565b60005b8381101561026e578181015183820152602001610256565b83811115' +
+  '61027d576000848401525b50505050565b60008251610295818460208701610253565b9190910192915050565b602081' +
+  '52600082518060208401526102be816040850160208701610253565b601f017fffffffffffffffffffffffffffffffff' +
+  'ffffffffffffffffffffffffffffffe016919091016040019291505056fe416464726573733a206c6f772d6c6576656c' +
+  '2064656c65676174652063616c6c206661696c6564a26469706673582212201cd78ab6a31213989661cff2d7d05fc9b9' +
+  'c38b1a848e8249e2e398659a9eb7e364736f6c634300080f0033416464726573733a206c6f772d6c6576656c2064656c' +
+  '65676174652063616c6c206661696c6564'
+) as Hex,
+  '0.7': (
+  '0x' +
+  '608060405260405161041738038061041783398101604081905261002291610268565b61002c8282610033565b505061' +
+  '0352565b61003c82610092565b6040516001600160a01b038316907fbc7cd75a20ee27fd9adebab32041f755214dbc6b' +
+  'ffa90cc0225b39da2e5c2d3b90600090a280511561008657610081828261010e565b505050565b61008e610185565b50' +
+  '50565b806001600160a01b03163b6000036100cd57604051634c9c8ce360e01b81526001600160a01b03821660048201' +
+  '526024015b60405180910390fd5b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc80' +
+  '546001600160a01b0319166001600160a01b0392909216919091179055565b6060600080846001600160a01b03168460' +
+  '405161012b9190610336565b600060405180830381855af49150503d8060008114610166576040519150601f19603f3d' +
+  '011682016040523d82523d6000602084013e61016b565b606091505b50909250905061017c8583836101a6565b959450' +
+  '50505050565b34156101a45760405163b398979f60e01b815260040160405180910390fd5b565b6060826101bb576101' +
+  'b682610205565b6101fe565b81511580156101d257506001600160a01b0384163b155b156101fb57604051639996b315' +
+  '60e01b81526001600160a01b03851660048201526024016100c4565b50805b9392505050565b80511561021557805180' +
+  '82602001fd5b604051630a12f52160e11b815260040160405180910390fd5b634e487b7160e01b600052604160045260' +
+  '246000fd5b60005b8381101561025f578181015183820152602001610247565b50506000910152565b60008060408385' +
+  '03121561027b57600080fd5b82516001600160a01b038116811461029257600080fd5b60208401519092506001600160' +
+  '401b03808211156102af57600080fd5b818501915085601f8301126102c357600080fd5b8151818111156102d5576102' +
+  'd561022e565b604051601f8201601f19908116603f011681019083821181831017156102fd576102fd61022e565b8160' +
+  '405282815288602084870101111561031657600080fd5b610327836020830160208801610244565b8095505050505050' +
+  '9250929050565b60008251610348818460208701610244565b9190910192915050565b60b7806103606000396000f3fe' +
+  '6080604052600a600c565b005b60186014601a565b605e565b565b600060597f360894a13ba1a3210667c828492db98d' +
+  'ca3e2076cc3735a920a3ca505d382bbc5473ffffffffffffffffffffffffffffffffffffffff1690565b905090565b36' +
+  '60008037600080366000845af43d6000803e808015607c573d6000f35b3d6000fdfea2646970667358221220d7f23a80' +
+  'daebb5531c9e4a18d87e812fca112e5df7e56433218edcc12bbe415d64736f6c63430008170033'
+) as Hex
+};
+
+/**
+ * Canonical Safe deployments: the proxy factory, the (non-L2) singleton and
+ * the compatibility fallback handler
+ */
+const SAFE_DEPLOYMENTS: Record<string, { factory: Address; singleton: Address; fallbackHandler: Address }> = {
+  '1.3.0': {
+    factory: '0xa6B71E26C5e0845f74c812102Ca7114b6a896AB2',
+    singleton: '0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552',
+    fallbackHandler: '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4'
+  },
+  '1.4.1': {
+    factory: '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67',
+    singleton: '0x41675C099F32341bf84BFc5382aF534df5C7461a',
+    fallbackHandler: '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99'
+  }
+};
+
+/**
+ * Canonical SimpleAccountFactory deployments and the account implementation
+ * each one deployed, per EntryPoint version
+ */
+const SIMPLE_ACCOUNT_DEPLOYMENTS: Record<string, { factory: Address; implementation: Address }> = {
+  '0.6': {
+    factory: '0x9406Cc6185a346906296840746125a0E44976454',
+    implementation: '0x8ABB13360b87Be5EEb1B98647A016adD927a136c'
+  },
+  '0.7': {
+    factory: '0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985',
+    implementation: '0x68641DE71cfEa5a5d0D29712449Ee254bb1400C2'
+  }
+};
+
+/**
+ * Smart account versions that can be mined, per address type
+ */
+export const SMART_ACCOUNT_VERSIONS: Record<SmartAccountType, string[]> = {
+  safe: Object.keys(SAFE_DEPLOYMENTS),
+  'simple-account': Object.keys(SIMPLE_ACCOUNT_DEPLOYMENTS)
+};
+
+/**
+ * Version mined when none is given, per address type
+ */
+export const DEFAULT_SMART_ACCOUNT_VERSIONS: Record<SmartAccountType, string> = {
+  safe: '1.4.1',
+  'simple-account': '0.7'
+};
+
+const SAFE_ABI = parseAbi([
+  'function setup(address[] _owners, uint256 _threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)',
+  'function createProxyWithNonce(address _singleton, bytes initializer, uint256 saltNonce)'
+]);
+
+const SIMPLE_ACCOUNT_ABI = parseAbi([
+  'function initialize(address anOwner)',
+  'function createAccount(address owner, uint256 salt)'
+]);
+
+/**
+ * A smart account factory set up for one owner set, ready to mine salts for
+ */
+export interface SmartAccountMiner {
+  /** Factory that deploys the account with CREATE2 */
+  factory: Address;
+  /** Keccak-256 hash of the proxy init code the factory deploys */
+  initCodeHash: Hex;
+  /** Gets the CREATE2 salt the factory uses for a mined nonce */
+  getSalt: (nonce: Hex) => Hex;
+  /** Gets the factory call that deploys the account for a mined nonce */
+  getDeployment: (nonce: Hex) => SmartAccountDeployment;
+}
+
+/**
+ * Checks whether an address type is a counterfactual smart account
+ */
+export function isSmartAccountType(type: string | undefined): type is SmartAccountType {
+  return type === 'safe' || type === 'simple-account';
+}
+
+/**
+ * Builds the Safe setup call that initializes a proxy for an owner set
+ */
+function encodeSafeSetup(owners: Address[], threshold: number, fallbackHandler: Address): Hex {
+  const zero = '0x0000000000000000000000000000000000000000';
+  return encodeFunctionData({
+    abi: SAFE_ABI,
+    functionName: 'setup',
+    args: [owners, BigInt(threshold), zero, '0x', fallbackHandler, zero, 0n, zero]
+  });
+}
+
+/**
+ * Gets the hash of the Safe proxy init code for a singleton
+ */
+function getSafeInitCodeHash(version: string, singleton: Address): Hex {
+  return keccak256(concat([SAFE_PROXY_CREATION_CODE[version]!, encodeAbiParameters([{ type: 'address' }], [singleton])]));
+}
+
+/**
+ * Gets the hash of the ERC1967Proxy init code that initializes a SimpleAccount for an owner
+ */
+function getSimpleAccountInitCodeHash(version: string, implementation: Address, owner: Address): Hex {
+  const initialize = encodeFunctionData({ abi: SIMPLE_ACCOUNT_ABI, functionName: 'initialize', args: [owner] });
+  const args = encodeAbiParameters([{ type: 'address' }, { type: 'bytes' }], [implementation, initialize]);
+  return keccak256(concat([ERC1967_PROXY_CREATION_CODE[version]!, args]));
+}
+
+/**
+ * Sets up salt mining for the smart account a configuration describes
+ *
+ * Safe proxies are salted with the hash of their setup call and the mined
+ * saltNonce, so the owners, threshold and fallback handler are fixed by the
+ * address. SimpleAccountFactory uses the mined salt as is, with the owner
+ * fixed by the init code instead.
+ */
+export function createSmartAccountMiner(config: GeneratorConfig): SmartAccountMiner {
+  const type = config.addressType as SmartAccountType;
+  const version = config.accountVersion ?? DEFAULT_SMART_ACCOUNT_VERSIONS[type];
+  const owners = (config.owners ?? []).map(owner => getAddress(owner));
+
+  if (type === 'safe') {
+    const defaults = SAFE_DEPLOYMENTS[version]!;
+    const factory = getAddress(config.factory ?? defaults.factory);
+    const singleton = getAddress(config.singleton ?? defaults.singleton);
+    const initializer = encodeSafeSetup(owners, config.threshold ?? 1, defaults.fallbackHandler);
+    const initializerHash = keccak256(initializer);
+    return {
+      factory,
+      initCodeHash: getSafeInitCodeHash(version, singleton),
+      getSalt: nonce => keccak256(concat([initializerHash, nonce])),
+      getDeployment: nonce => ({
+        type,
+        version,
+        factory,
+        singleton,
+        method: 'createProxyWithNonce',
+        args: { _singleton: singleton, initializer, saltNonce: BigInt(nonce).toString() },
+        data: encodeFunctionData({
+          abi: SAFE_ABI,
+          functionName: 'createProxyWithNonce',
+          args: [singleton, initializer, BigInt(nonce)]
+        })
+      })
+    };
+  }
+
+  const defaults = SIMPLE_ACCOUNT_DEPLOYMENTS[version]!;
+  const factory = getAddress(config.factory ?? defaults.factory);
+  const implementation = getAddress(config.singleton ?? defaults.implementation);
+  const owner = owners[0]!;
+  return {
+    factory,
+    initCodeHash: getSimpleAccountInitCodeHash(version, implementation, owner),
+    getSalt: nonce => nonce,
+    getDeployment: nonce => ({
+      type,
+      version,
+      factory,
+      singleton: implementation,
+      method: 'createAccount',
+      args: { owner, salt: BigInt(nonce).toString() },
+      data: encodeFunctionData({ abi: SIMPLE_ACCOUNT_ABI, functionName: 'createAccount', args: [owner, BigInt(nonce)] })
+    })
+  };
+}
+
+/**
+ * Gets the address a factory call deploys, from the call alone
+ *
+ * Decodes the calldata rather than trusting the reported arguments, since
+ * the calldata is what gets sent.
+ */
+export function getSmartAccountAddress(deployment: SmartAccountDeployment): Address {
+  const factory = getAddress(deployment.factory);
+  const singleton = getAddress(deployment.singleton);
+
+  if (deployment.type === 'safe') {
+    if (!SAFE_PROXY_CREATION_CODE[deployment.version]) {
+      throw new Error(`Unknown Safe version: ${deployment.version}`);
+    }
+    const { functionName, args } = decodeFunctionData({ abi: SAFE_ABI, data: deployment.data as Hex });
+    if (functionName !== 'createProxyWithNonce') {
+      throw new Error(`Expected a createProxyWithNonce call, got ${functionName}`);
+    }
+    const [callSingleton, initializer, saltNonce] = args;
+    if (getAddress(callSingleton) !== singleton) {
+      throw new Error(`Call deploys singleton ${callSingleton}, not ${singleton}`);
+    }
+    return getContractAddress({
+      opcode: 'CREATE2',
+      from: factory,
+      salt: keccak256(concat([keccak256(initializer), toHex(saltNonce, { size: 32 })])),
+      bytecodeHash: getSafeInitCodeHash(deployment.version, singleton)
+    });
+  }
+
+  if (!ERC1967_PROXY_CREATION_CODE[deployment.version]) {
+    throw new Error(`Unknown SimpleAccount version: ${deployment.version}`);
+  }
+  const { functionName, args } = decodeFunctionData({ abi: SIMPLE_ACCOUNT_ABI, data: deployment.data as Hex });
+  if (functionName !== 'createAccount') {
+    throw new Error(`Expected a createAccount call, got ${functionName}`);
+  }
+  const [owner, salt] = args;
+  return getContractAddress({
+    opcode: 'CREATE2',
+    from: factory,
+    salt: toHex(salt, { size: 32 }),
+    bytecodeHash: getSimpleAccountInitCodeHash(deployment.version, singleton, owner)
+  });
+}
@@ -0,0 +1,26 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58 } from '@scure/base';
+
+/**
+ * Generates a random ed25519 keypair
+ *
+ * Returns the base58 address (the public key) and the keypair in Solana CLI
+ * order: the 32-byte secret seed followed by the public key.
+ */
+export function generateSolanaKeypair(): { address: string; keypair: number[] } {
+  const seed = ed25519.utils.randomPrivateKey();
+  const publicKey = ed25519.getPublicKey(seed);
+  return { address: base58.encode(publicKey), keypair: [...seed, ...publicKey] };
+}
+
+/**
+ * Writes a keypair as a Solana CLI keypair file named after its address, returning the file path
+ */
+export function writeSolanaKeypair(directory: string, address: string, keypair: number[]): string {
+  mkdirSync(directory, { recursive: true, mode: 0o700 });
+  const path = join(directory, `${address}.json`);
+  writeFileSync(path, JSON.stringify(keypair), { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+  return path;
+}
@@ -0,0 +1,60 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { toHex, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { SplitKeySecret } from './types.js';
+
+const CURVE_ORDER = secp256k1.CURVE.n;
+
+/**
+ * Generates the requester's half of a split key
+ *
+ * Only `publicKey` is handed to the search node; `privateKey` never leaves
+ * the requester.
+ */
+export function generateSplitKeySecret(): SplitKeySecret {
+  const privateKey = secp256k1.utils.randomPrivateKey();
+  return {
+    privateKey: toHex(privateKey),
+    publicKey: toHex(secp256k1.getPublicKey(privateKey, false))
+  };
+}
+
+/**
+ * Checks that a hex string is a valid secp256k1 public key (compressed or uncompressed)
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  try {
+    secp256k1.ProjectivePoint.fromHex(publicKey.replace(/^0x/, '')).assertValidity();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combines the requester's secret with a partial key found by a search node
+ *
+ * The final key is the sum of both scalars modulo the curve order, so its
+ * public point is the requester's public key plus the partial key's point.
+ */
+export function combineSplitKey(secret: Hex, partialKey: Hex): Hex {
+  const combined = (BigInt(secret) + BigInt(partialKey)) % CURVE_ORDER;
+  if (combined === 0n) {
+    throw new Error('Combined key is zero; the partial key does not belong to this secret');
+  }
+  return toHex(combined, { size: 32 });
+}
+
+/**
+ * Combines a split key and checks it derives the expected address
+ */
+export function combineAndVerify(secret: Hex, partialKey: Hex, expectedAddress?: string): { privateKey: Hex; address: string } {
+  const privateKey = combineSplitKey(secret, partialKey);
+  const address = privateKeyToAccount(privateKey).address;
+  
+  if (expectedAddress && address.toLowerCase() !== expectedAddress.toLowerCase()) {
+    throw new Error(`Combined key derives ${address}, expected ${expectedAddress}`);
+  }
+  
+  return { privateKey, address };
+}
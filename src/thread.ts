@@ -0,0 +1,48 @@
+/**
+ * Worker entry point
+ *
+ * Runs as a Web Worker under Bun and browsers, and as a worker_threads
+ * worker under Node, which has no global `self`.
+ */
+import { attachAttemptCounter } from './counters.js';
+import { runSearch } from './search.js';
+import type { WorkerMessage, WorkerResult } from './types.js';
+
+/**
+ * The parts of a Web Worker's global scope used here
+ */
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<WorkerMessage>) => void) | null;
+  postMessage(result: WorkerResult, transfer: ArrayBuffer[]): void;
+}
+
+/**
+ * Gets the buffers to transfer with a result rather than copy, so no copy
+ * of a sealed secret stays behind in this worker
+ */
+function getTransferList(result: WorkerResult): ArrayBuffer[] {
+  return result.data?.secret ? [result.data.secret.buffer as ArrayBuffer] : [];
+}
+
+function handleMessage(message: WorkerMessage, post: (result: WorkerResult) => void): void {
+  try {
+    runSearch(message.config, post, attachAttemptCounter(message.shared, message.slot, message.config.maxAttempts));
+    post({ type: 'done' });
+  } catch (error) {
+    post({
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+const scope = (globalThis as { self?: WorkerScope }).self;
+
+if (scope) {
+  scope.onmessage = (e) => handleMessage(e.data, result => scope.postMessage(result, getTransferList(result)));
+} else {
+  const { parentPort } = await import('node:worker_threads');
+  parentPort?.on('message', (message: WorkerMessage) => (
+    handleMessage(message, result => parentPort.postMessage(result, getTransferList(result)))
+  ));
+}
@@ -0,0 +1,33 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { base58check, getBase58RangeStartProbability } from './base58.js';
+
+/**
+ * Version byte of Tron mainnet addresses
+ */
+const ADDRESS_VERSION = 0x41;
+
+/**
+ * Encodes an uncompressed public key (x || y, without the 04 byte) as a Tron address
+ *
+ * The payload is the same Keccak-256 hash as an Ethereum address, after the
+ * 0x41 version byte.
+ */
+export function toTronAddress(point: Uint8Array): string {
+  const payload = new Uint8Array(21);
+  payload[0] = ADDRESS_VERSION;
+  payload.set(keccak_256(point).subarray(12), 1);
+  return base58check.encode(payload);
+}
+
+/**
+ * Gets the exact probability that a Tron address starts with the target (after the T)
+ *
+ * An address encodes 25 bytes starting with the version byte, so it always
+ * starts with T and the characters after it cover only part of the
+ * alphabet.
+ */
+export function getTronStartProbability(target: string, caseSensitive: boolean): number {
+  const lower = BigInt(ADDRESS_VERSION) << 192n;
+  const upper = BigInt(ADDRESS_VERSION + 1) << 192n;
+  return getBase58RangeStartProbability(`T${target}`, caseSensitive, lower, upper);
+}
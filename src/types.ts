@@ -1,14 +1,121 @@
 /**
  * Search modes for vanity address generation
  */
-export type SearchMode = 'anywhere' | 'start' | 'end' | 'position';
+export type SearchMode = 'anywhere' | 'start' | 'end' | 'position' | 'pattern' | 'score';
+
+/**
+ * Rules for ranking addresses in 'score' mode
+ */
+export type ScoreRule = 'leading-zeros' | 'zero-bytes' | 'expression';
+
+/**
+ * Address features available to score rules and custom score expressions
+ */
+export interface ScoreInputs {
+  /** Address without 0x prefix, lowercase */
+  address: string;
+  leadingZeroNibbles: number;
+  leadingZeroBytes: number;
+  zeroNibbles: number;
+  zeroBytes: number;
+}
+
+/**
+ * A single character of a compiled search pattern
+ */
+export interface PatternToken {
+  /** Regular expression source matching this character */
+  source: string;
+  /** Number of distinct nibble values accepted (1-16) */
+  choices: number;
+}
+
+/**
+ * Kinds of address that can be searched for
+ */
+export type AddressType = 'eoa' | 'create' | 'create2' | 'mnemonic' | 'split-key' | 'safe' | 'simple-account';
+
+/**
+ * Counterfactual smart accounts whose factory salt can be mined
+ */
+export type SmartAccountType = Extract<AddressType, 'safe' | 'simple-account'>;
+
+/**
+ * Factory call that deploys a mined smart account at its counterfactual address
+ */
+export interface SmartAccountDeployment {
+  type: SmartAccountType;
+  /** Safe release or SimpleAccount EntryPoint version */
+  version: string;
+  /** Factory to call */
+  factory: string;
+  /** Safe singleton or SimpleAccount implementation the proxy points at */
+  singleton: string;
+  /** Factory method to call */
+  method: string;
+  /** Arguments of the call, numbers in decimal */
+  args: Record<string, string>;
+  /** ABI-encoded calldata of the call */
+  data: string;
+}
+
+/**
+ * Chains whose addresses can be searched for
+ */
+export type ChainId = 'ethereum' | 'solana' | 'tron' | 'bitcoin';
+
+/**
+ * Bitcoin address encodings: legacy base58check, native SegWit v0 (bech32)
+ * and Taproot (bech32m)
+ */
+export type BitcoinFormat = 'p2pkh' | 'p2wpkh' | 'p2tr';
+
+/**
+ * How a chain writes addresses, as far as searching them is concerned
+ */
+export interface AddressFormat {
+  chain: ChainId;
+  /** Characters the searchable part of an address is made of, in digit order */
+  alphabet: string;
+  /** What one of those characters is called in messages */
+  characterName: string;
+  /** Fixed text before the searchable part, never matched */
+  prefix: string;
+  /** Length of the searchable part (the longest, for variable-length encodings) */
+  length: number;
+  /**
+   * How letter case is matched: 'checksum' when addresses are case-insensitive
+   * but a checksum assigns case (EIP-55), 'native' when the alphabet itself
+   * distinguishes case
+   */
+  caseMode: 'checksum' | 'native';
+  /** Characters commonly typed in place of the alphabet character they resemble */
+  lookalikes: Record<string, string>;
+  /** Search modes the chain supports */
+  searchModes: SearchMode[];
+  /** Address types the chain supports */
+  addressTypes: AddressType[];
+  /**
+   * Exact probability that an address starts with the target, for encodings
+   * whose leading characters are not uniform
+   */
+  getStartProbability?: (target: string, caseSensitive: boolean) => number;
+  /**
+   * Probability that the searchable part is at least `length` characters
+   * long, for variable-length encodings; shorter addresses cannot match
+   * a target that reaches past their end
+   */
+  getLengthProbability?: (length: number) => number;
+}
 
 /**
  * Configuration for vanity address generation
  */
 export interface GeneratorConfig {
-  /** Target string to search for (without 0x prefix) */
+  /** Target string to search for (without 0x prefix), or a pattern for 'pattern' mode */
   target: string;
+  /** Several targets to search for at once; when set, takes precedence over `target` */
+  targets?: string[];
   /** Search mode */
   searchMode: SearchMode;
   /** Position for 'position' search mode (0-indexed) */
@@ -17,40 +124,495 @@ export interface GeneratorConfig {
   caseSensitive: boolean;
   /** Number of worker threads */
   numWorkers: number;
+  /** Chain whose addresses to search for (defaults to 'ethereum') */
+  chain?: ChainId;
+  /** Address encoding for the 'bitcoin' chain (defaults to 'p2wpkh') */
+  bitcoinFormat?: BitcoinFormat;
+  /** Kind of address to search for (defaults to 'eoa') */
+  addressType?: AddressType;
+  /** Deployer (factory) address for 'create2' address type */
+  deployer?: string;
+  /** Keccak-256 hash of the contract init code for 'create2' address type */
+  initCodeHash?: string;
+  /** Number of deployer nonces to check per key for 'create' address type (defaults to 1) */
+  nonceCount?: number;
+  /** Number of BIP-39 mnemonic words for 'mnemonic' address type (defaults to 12) */
+  mnemonicWords?: 12 | 24;
+  /** Optional BIP-39 passphrase for 'mnemonic' address type */
+  passphrase?: string;
+  /** BIP-44 derivation path template with an `{index}` placeholder for 'mnemonic' address type */
+  derivationPath?: string;
+  /** Number of indices to scan per mnemonic for 'mnemonic' address type (defaults to 1) */
+  accountCount?: number;
+  /** Requester's public key for 'split-key' address type */
+  publicKey?: string;
+  /** Owner addresses for 'safe' (one or more) and 'simple-account' (exactly one) address types */
+  owners?: string[];
+  /** Number of owner confirmations a 'safe' account requires (defaults to 1) */
+  threshold?: number;
+  /** Safe release or SimpleAccount EntryPoint version (defaults to '1.4.1' and '0.7') */
+  accountVersion?: string;
+  /** Factory overriding the canonical deployment for smart account address types */
+  factory?: string;
+  /** Safe singleton or SimpleAccount implementation overriding the canonical deployment */
+  singleton?: string;
+  /** Rule used to rank addresses in 'score' mode (defaults to 'leading-zeros') */
+  scoreRule?: ScoreRule;
+  /** Arithmetic expression over the ScoreInputs counts for the 'expression' score rule */
+  scoreExpression?: string;
+  /** Number of best results to keep in 'score' mode (defaults to 10) */
+  topK?: number;
+  /** Time budget in seconds; the run ends when it is used up */
+  maxTime?: number;
+  /** Attempt budget; the run ends when it is used up */
+  maxAttempts?: number;
+  /** Worker crashes tolerated before the run fails (defaults to 10); crashed workers are restarted until then */
+  maxWorkerErrors?: number;
+  /** Number of matches to collect per target before it is satisfied (defaults to 1) */
+  count?: number;
+  /** Keep collecting matches until stopped, ignoring `count` */
+  continuous?: boolean;
 }
 
+/**
+ * Secret fields a result can carry, depending on the kind of address
+ */
+export type ResultSecret = Pick<VanityAddressResult, 'privateKey' | 'mnemonic' | 'keypair' | 'wif'>;
+
 /**
  * Result from worker thread
+ *
+ * 'done' is posted once the worker's search loop has ended, after every
+ * result it found.
  */
 export interface WorkerResult {
-  type: 'found' | 'progress' | 'error';
+  type: 'found' | 'scored' | 'near-miss' | 'done' | 'error';
   data?: {
     address: string;
-    privateKey: string;
-    attempts: number;
+    salt?: string;
+    deployer?: string;
+    nonce?: number;
+    derivationPath?: string;
+    partialKey?: string;
+    deployment?: SmartAccountDeployment;
+    /**
+     * The candidate's ResultSecret as UTF-8 JSON, transferred rather than
+     * copied and wiped once the main thread has read it
+     */
+    secret?: Uint8Array;
+    score?: number;
+    /** Number of target characters a near-miss matched */
+    matchedLength?: number;
+    /** Index into the configured targets of the target that matched */
+    targetIndex: number;
   };
-  attempts?: number;
   error?: string;
 }
 
+/**
+ * Memory shared between the generator and its workers for one run
+ */
+export interface SharedRunState {
+  /** Int32 control flags; the first one stops every worker */
+  control: SharedArrayBuffer;
+  /** One 64-bit attempt counter per worker slot */
+  counters: SharedArrayBuffer;
+  /** 64-bit count of attempts claimed by all workers, checked against the attempt budget */
+  claimed: SharedArrayBuffer;
+}
+
 /**
  * Message to worker thread
+ *
+ * Workers report attempts and stop through the shared memory, so starting
+ * is the only message they receive.
  */
 export interface WorkerMessage {
-  type: 'start' | 'stop';
-  config?: GeneratorConfig;
+  type: 'start';
+  config: GeneratorConfig;
+  shared: SharedRunState;
+  /** Worker slot whose attempt counter the worker adds to */
+  slot: number;
+}
+
+/**
+ * Requester's half of a split key, kept secret apart from the public key
+ */
+export interface SplitKeySecret {
+  privateKey: `0x${string}`;
+  publicKey: `0x${string}`;
+}
+
+/**
+ * How a found key is split into Shamir shares: any `threshold` of the
+ * `shares` recover it
+ */
+export interface ShareScheme {
+  threshold: number;
+  shares: number;
+}
+
+/**
+ * One Shamir share of a found key, as written to a share file
+ */
+export interface KeyShare {
+  /** Address the shared key controls */
+  address: string;
+  chain: ChainId;
+  bitcoinFormat?: BitcoinFormat;
+  /** Number of shares that recover the key */
+  threshold: number;
+  /** Number of shares the key was split into */
+  shares: number;
+  /** Index of this share, from 1 */
+  index: number;
+  /** Share value, a 32-byte scalar */
+  share: `0x${string}`;
+}
+
+/**
+ * Key derivation functions supported for keystore encryption
+ */
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+/**
+ * Web3 Secret Storage (version 3) keystore file
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  /** Address without 0x prefix, lowercase */
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+/**
+ * Scrypt key derivation parameters
+ */
+export interface ScryptParams {
+  dklen: number;
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * PBKDF2 key derivation parameters
+ */
+export interface Pbkdf2Params {
+  dklen: number;
+  salt: string;
+  c: number;
+  prf: 'hmac-sha256';
+}
+
+/**
+ * Where to read a keystore password from; prompts interactively when neither is set
+ */
+export interface PasswordOptions {
+  /** Name of an environment variable holding the password */
+  passwordEnv?: string;
+  /** Path of a file holding the password */
+  passwordFile?: string;
+}
+
+/**
+ * Where to write results holding key material, and whether to print it
+ */
+export interface SecretOptions {
+  /** File to append results to, readable by the owner only */
+  output?: string;
+  /** Shell command to pipe each result to on stdin */
+  secretsCommand?: string;
+  /** age recipient, or a file of age recipients or an armored PGP public key, to encrypt results to */
+  recipient?: string;
+  /** Print key material on stdout */
+  reveal?: boolean;
 }
 
 /**
  * CLI options
  */
-export interface CLIOptions {
-  target: string;
+export interface CLIOptions extends PasswordOptions, SecretOptions {
+  target?: string;
+  targets?: string;
+  targetsFile?: string;
   mode: SearchMode;
   position?: number;
   caseSensitive: boolean;
   workers?: number;
   verbose?: boolean;
+  chain?: string;
+  bitcoinFormat?: string;
+  type: AddressType;
+  deployer?: string;
+  initCodeHash?: string;
+  nonces?: number;
+  words?: string;
+  passphrase?: string;
+  path?: string;
+  accounts?: number;
+  publicKey?: string;
+  owners?: string;
+  threshold?: number;
+  accountVersion?: string;
+  factory?: string;
+  singleton?: string;
+  scoreRule?: string;
+  scoreExpression?: string;
+  top?: number;
+  maxTime?: number;
+  maxAttempts?: number;
+  maxWorkerErrors?: number;
+  count?: number;
+  continuous?: boolean;
+  keystore?: string;
+  kdf?: string;
+  split?: string;
+  sharesDir?: string;
+  json?: boolean;
+  ndjson?: boolean;
+}
+
+/**
+ * Options for the promise and async iterator library API
+ */
+export interface GenerateOptions {
+  /** Stops the search and rejects with the signal's reason when aborted */
+  signal?: AbortSignal;
+  /** Called with performance statistics about once a second */
+  onProgress?: (stats: PerformanceStats) => void;
+  /** Called when the configured time or attempt budget runs out */
+  onBudgetExhausted?: (report: BudgetReport) => void;
+  /** Called when a crashed worker has been restarted */
+  onWorkerRestarted?: (restart: WorkerRestart) => void;
+  /** Called with the report of a result that failed verification and was dropped */
+  onVerificationFailed?: (report: VerificationReport) => void;
+}
+
+/**
+ * Why a generation run ended; 'failed' runs used up their worker error budget
+ */
+export type CompletionReason = 'satisfied' | 'stopped' | 'budget' | 'failed';
+
+/**
+ * Summary emitted when a generation run ends
+ */
+export interface RunSummary {
+  reason: CompletionReason;
+  /** Number of results emitted during the run */
+  found: number;
+  stats: PerformanceStats;
+  /** Best results found, highest score first ('score' mode) */
+  best?: VanityAddressResult[];
+  /** Health of each worker at the end of the run */
+  workers: WorkerHealth[];
+}
+
+/**
+ * State of a worker slot: running, waiting out its backoff before a restart,
+ * stopped with the rest of the run, or given up on once the run's error
+ * budget was used up
+ */
+export type WorkerStatus = 'running' | 'restarting' | 'stopped' | 'failed';
+
+/**
+ * Health of one worker slot, as tracked by the generator's supervisor
+ *
+ * A slot keeps its counts across restarts of its worker.
+ */
+export interface WorkerHealth {
+  /** Index of the slot, from 0 */
+  id: number;
+  status: WorkerStatus;
+  /** Attempts counted by the slot's workers */
+  attempts: number;
+  /** Times the slot's worker crashed */
+  errors: number;
+  /** Times the slot's worker was restarted */
+  restarts: number;
+  /** Message of the latest crash */
+  lastError?: string;
+  /** Time the slot's worker last counted an attempt or sent a message, in milliseconds since the epoch */
+  lastSeen: number;
+}
+
+/**
+ * Emitted when a crashed worker has been replaced
+ */
+export interface WorkerRestart {
+  /** Index of the worker slot */
+  id: number;
+  /** What the worker crashed with */
+  error: string;
+  /** Milliseconds waited before the restart */
+  delay: number;
+  /** Times the slot's worker has been restarted, including this one */
+  restarts: number;
+  /** Worker crashes in the run so far */
+  errors: number;
+  /** Worker crashes the run tolerates before it fails */
+  maxErrors: number;
+}
+
+/**
+ * Emitted when a run's time or attempt budget is used up
+ */
+export interface BudgetReport {
+  stats: PerformanceStats;
+  /** Number of results emitted before the budget ran out */
+  found: number;
+  /** Closest non-matching address seen, if any (target modes) */
+  nearMiss?: VanityAddressResult;
+}
+
+/**
+ * How the CLI writes its output
+ */
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+/**
+ * Difficulty estimate for a target, as reported by the CLI
+ */
+export interface DifficultyEstimate {
+  target: string;
+  mode: SearchMode;
+  caseSensitive: boolean;
+  chain: ChainId;
+  bitcoinFormat?: BitcoinFormat;
+  addressType: AddressType;
+  candidatesPerAttempt: number;
+  /** Probability that one attempt matches */
+  probability: number;
+  /** Expected attempts for a match ("1 in N") */
+  difficulty: number;
+  description: string;
+  /** Assumed speed in attempts per second */
+  estimatedSpeed: number;
+  /** Whether the speed comes from a saved benchmark or the built-in default */
+  speedSource: 'benchmark' | 'default';
+  /** Expected time for a match */
+  estimatedSeconds: number;
+  /** Attempts and time after which a match has been found with each confidence */
+  successCurve: CompletionEstimate[];
+}
+
+/**
+ * Attempts and time needed to find a match with a given confidence
+ */
+export interface CompletionEstimate {
+  /** Probability of having found a match, e.g. 0.9 */
+  confidence: number;
+  attempts: number;
+  seconds: number;
+}
+
+/**
+ * Throughput measured with one worker count
+ */
+export interface BenchmarkSample {
+  workers: number;
+  /** Attempts per second */
+  speed: number;
+}
+
+/**
+ * Benchmark of one address type across worker counts
+ */
+export interface BenchmarkResult {
+  /** Chain benchmarked (absent in profiles saved before chains were added: 'ethereum') */
+  chain?: ChainId;
+  /** Address encoding benchmarked ('bitcoin' only) */
+  bitcoinFormat?: BitcoinFormat;
+  addressType: AddressType;
+  candidatesPerAttempt: number;
+  samples: BenchmarkSample[];
+  /** Worker count with the highest throughput */
+  optimalWorkers: number;
+  /** Throughput with the optimal worker count */
+  speed: number;
+  /** ISO timestamp of the measurement */
+  measuredAt: string;
+}
+
+/**
+ * Calibration profile saved by the benchmark command
+ */
+export interface BenchmarkProfile {
+  version: 1;
+  /**
+   * Keyed by address type, prefixed with the chain for chains other than
+   * Ethereum (e.g. "solana-eoa") and with the encoding for Bitcoin
+   * (e.g. "bitcoin-p2tr-eoa")
+   */
+  results: Record<string, BenchmarkResult>;
+}
+
+/**
+ * Structured record written by the CLI in --ndjson mode
+ */
+export type OutputRecord =
+  | { type: 'config'; config: Omit<GeneratorConfig, 'passphrase'> }
+  | { type: 'warning'; message: string }
+  | { type: 'estimate'; estimate: DifficultyEstimate }
+  | { type: 'benchmark'; benchmark: BenchmarkResult; profile?: string }
+  | { type: 'progress'; stats: PerformanceStats; successProbability?: number }
+  | { type: 'result'; result: VanityAddressResult; keystore?: string; shares?: string[] }
+  | { type: 'best'; results: VanityAddressResult[] }
+  | { type: 'budgetExhausted'; report: BudgetReport; keystore?: string }
+  | { type: 'workerRestarted'; restart: WorkerRestart }
+  | { type: 'completed'; summary: RunSummary }
+  | { type: 'verification'; report: VerificationReport }
+  | { type: 'error'; message: string; exitCode: number };
+
+/**
+ * Single document written by the CLI in --json mode when it exits
+ */
+export interface JsonReport {
+  config?: Omit<GeneratorConfig, 'passphrase'>;
+  warnings?: string[];
+  estimate?: DifficultyEstimate;
+  benchmark?: BenchmarkResult;
+  /** Path the benchmark was saved to */
+  profile?: string;
+  results?: (VanityAddressResult & { keystore?: string; shares?: string[] })[];
+  budget?: BudgetReport & { keystore?: string };
+  workerRestarts?: WorkerRestart[];
+  summary?: RunSummary;
+  verifications?: VerificationReport[];
+  error?: { message: string; exitCode: number };
+}
+
+/**
+ * One check made when verifying a result
+ */
+export interface VerificationCheck {
+  /**
+   * 'key' when the secret derives the address, 'checksum' when the address
+   * carries a valid checksum for its chain, 'target' when it satisfies the
+   * search description
+   */
+  name: 'key' | 'checksum' | 'target';
+  passed: boolean;
+  detail: string;
+}
+
+/**
+ * Outcome of verifying a result offline
+ */
+export interface VerificationReport {
+  address: string;
+  /** Whether every check passed */
+  passed: boolean;
+  checks: VerificationCheck[];
 }
 
 /**
@@ -58,6 +620,8 @@ export interface CLIOptions {
  */
 export interface PerformanceStats {
   totalAttempts: number;
+  /** Attempts by each worker slot, summing to totalAttempts */
+  workerAttempts: number[];
   totalTime: number;
   avgAddressesPerSecond: number;
   currentAddressesPerSecond: number;
@@ -68,7 +632,32 @@ export interface PerformanceStats {
  */
 export interface VanityAddressResult {
   address: string;
-  privateKey: string;
+  /** Target that this address satisfies */
+  target: string;
+  /** Private key controlling the address (EOA searches; bare hex for 'tron') */
+  privateKey?: string;
+  /** CREATE2 salt producing the address (contract searches) */
+  salt?: string;
+  /** Deployer address whose nonce produces the contract address ('create' searches) */
+  deployer?: string;
+  /** Deployer nonce producing the contract address ('create' searches) */
+  nonce?: number;
+  /** BIP-39 mnemonic the key is derived from ('mnemonic' searches) */
+  mnemonic?: string;
+  /** Derivation path of the key within the mnemonic ('mnemonic' searches) */
+  derivationPath?: string;
+  /** Partial key to add to the requester's secret ('split-key' searches) */
+  partialKey?: string;
+  /** Solana CLI keypair: the 32-byte secret seed followed by the public key ('solana' searches) */
+  keypair?: number[];
+  /** Compressed private key in Wallet Import Format ('bitcoin' searches; the internal key for P2TR) */
+  wif?: string;
+  /** Factory call that deploys the account ('safe' and 'simple-account' searches) */
+  deployment?: SmartAccountDeployment;
+  /** Score of the address under the configured rule ('score' mode) */
+  score?: number;
+  /** Number of target characters matched (near-misses reported when a budget runs out) */
+  matchedLength?: number;
   attempts: number;
   searchTime: number;
   searchDescription: string;
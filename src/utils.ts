@@ -1,17 +1,498 @@
-import type { SearchMode, GeneratorConfig, PerformanceStats } from './types.js';
+import { BITCOIN_FORMATS, CHAINS, getAddressFormat } from './chains.js';
+import { SMART_ACCOUNT_VERSIONS, isSmartAccountType } from './smartaccount.js';
+import { isValidPublicKey } from './splitkey.js';
+import type {
+  AddressFormat,
+  SearchMode,
+  GeneratorConfig,
+  PerformanceStats,
+  PatternToken,
+  ScoreInputs,
+  ScoreRule
+} from './types.js';
+
+const HEX_DIGITS = '0123456789abcdef';
+
+/**
+ * Default BIP-44 derivation path template for Ethereum accounts
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/{index}";
+
+/**
+ * Worker crashes a run tolerates, restarting each crashed worker, before it fails
+ */
+export const DEFAULT_MAX_WORKER_ERRORS = 10;
+
+/**
+ * Checks whether a target character can appear in an address
+ *
+ * Checksummed formats carry case separately, so either case of a character
+ * works; natively cased alphabets only match other cases when matching
+ * ignores case.
+ */
+function isAddressCharacter(char: string, format: AddressFormat, caseSensitive: boolean): boolean {
+  if (format.caseMode === 'native' && caseSensitive) {
+    return format.alphabet.includes(char);
+  }
+  return [...format.alphabet].some(c => c.toLowerCase() === char.toLowerCase());
+}
 
 /**
- * Validates a hexadecimal target string
+ * Validates a target string against an address alphabet (hex by default)
  */
-export function validateTarget(target: string): boolean {
-  return /^[0-9a-fA-F]+$/.test(target);
+export function validateTarget(target: string, format: AddressFormat = getAddressFormat(), caseSensitive = false): boolean {
+  return target.length > 0 && [...target].every(char => isAddressCharacter(char, format, caseSensitive));
+}
+
+/**
+ * Explains why a target can never appear in an address
+ *
+ * Any character outside the chain's address alphabet is unreachable;
+ * look-alike characters get a hint for the one that was probably meant.
+ * A one-character prefix (Tron's T, P2PKH's 1) is not rejected, since it
+ * can also start the searchable part.
+ */
+export function explainUnreachableTarget(
+  target: string,
+  config: Partial<Pick<GeneratorConfig, 'chain' | 'bitcoinFormat' | 'caseSensitive'>> = {}
+): string[] {
+  const format = getAddressFormat(config);
+  if (format.prefix.length > 1 && target.toLowerCase().startsWith(format.prefix)) {
+    return [`Target must not include the ${format.prefix} prefix`];
+  }
+  
+  // Pattern syntax is validated separately
+  const syntax = format.searchModes.includes('pattern') ? '*?[]!^-' : '';
+  return [...target].flatMap((char, position) => {
+    if (syntax.includes(char) || isAddressCharacter(char, format, config.caseSensitive ?? false)) {
+      return [];
+    }
+    const lookalike = format.lookalikes[char] ?? format.lookalikes[char.toLowerCase()];
+    const hint = lookalike ? ` (did you mean "${lookalike}"?)` : '';
+    return [`"${char}" at position ${position} is not a ${format.characterName} and can never appear in an address${hint}`];
+  });
 }
 
 /**
  * Validates the position parameter for position search mode
  */
-export function validatePosition(position: number, targetLength: number): boolean {
-  return position >= 0 && position <= (40 - targetLength); // 40 chars in address without 0x
+export function validatePosition(position: number, targetLength: number, addressLength = 40): boolean {
+  return position >= 0 && position <= addressLength - targetLength;
+}
+
+/**
+ * Validates a 0x-prefixed 20-byte address
+ */
+export function validateAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+/**
+ * Validates a 0x-prefixed 32-byte hash
+ */
+export function validateHash(hash: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(hash);
+}
+
+/**
+ * Validates a 0x-prefixed secp256k1 public key, compressed or uncompressed
+ */
+export function validatePublicKey(publicKey: string): boolean {
+  return /^0x(04[0-9a-fA-F]{128}|0[23][0-9a-fA-F]{64})$/.test(publicKey);
+}
+
+/**
+ * Validates a derivation path template such as "m/44'/60'/0'/0/{index}"
+ */
+export function validateDerivationPath(template: string): boolean {
+  return /^m(\/\d+'?)*$/.test(template.replace(/\{index\}/g, '0'));
+}
+
+/**
+ * Expands the body of a character class (e.g. "0-3a") into its nibble characters
+ */
+function expandCharacterClass(body: string, offset: number): Set<string> {
+  const chars = new Set<string>();
+  const lower = body.toLowerCase();
+  
+  for (let i = 0; i < lower.length; i++) {
+    const char = lower[i]!;
+    if (!HEX_DIGITS.includes(char)) {
+      throw new Error(`Invalid character "${body[i]}" in character class at position ${offset}`);
+    }
+    
+    if (lower[i + 1] === '-' && i + 2 < lower.length) {
+      const end = lower[i + 2]!;
+      const from = HEX_DIGITS.indexOf(char);
+      const to = HEX_DIGITS.indexOf(end);
+      if (to === -1 || to < from) {
+        throw new Error(`Invalid range "${body.slice(i, i + 3)}" in character class at position ${offset}`);
+      }
+      for (let n = from; n <= to; n++) {
+        chars.add(HEX_DIGITS[n]!);
+      }
+      i += 2;
+    } else {
+      chars.add(char);
+    }
+  }
+  
+  return chars;
+}
+
+/**
+ * Parses a search pattern into segments separated by '*'
+ *
+ * Supported syntax:
+ * - hex characters match literally (honouring case sensitivity)
+ * - `?` matches any single nibble
+ * - `[0-3a]` matches any nibble in the class, `[!0-3]` any nibble not in it
+ * - `*` matches any run of nibbles, splitting the pattern into segments
+ *
+ * The pattern is anchored at both ends, so `dead*beef` means "starts with
+ * dead and ends with beef". Character classes and `?` ignore case.
+ */
+export function parsePattern(pattern: string): PatternToken[][] {
+  const segments: PatternToken[][] = [[]];
+  
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const segment = segments[segments.length - 1]!;
+    
+    if (char === '*') {
+      segments.push([]);
+    } else if (char === '?') {
+      segment.push({ source: '[0-9a-fA-F]', choices: 16 });
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        throw new Error(`Unclosed character class at position ${i}`);
+      }
+      
+      const body = pattern.slice(i + 1, end);
+      const negated = body.startsWith('!') || body.startsWith('^');
+      const listed = expandCharacterClass(negated ? body.slice(1) : body, i);
+      const accepted = [...HEX_DIGITS].filter(c => listed.has(c) !== negated);
+      if (accepted.length === 0) {
+        throw new Error(`Character class at position ${i} matches nothing`);
+      }
+      
+      const source = accepted.map(c => (/[a-f]/.test(c) ? c + c.toUpperCase() : c)).join('');
+      segment.push({ source: `[${source}]`, choices: accepted.length });
+      i = end;
+    } else if (/[0-9a-fA-F]/.test(char)) {
+      segment.push({ source: char, choices: 1 });
+    } else {
+      throw new Error(`Unexpected character "${char}" at position ${i}`);
+    }
+  }
+  
+  return segments;
+}
+
+/**
+ * Compiles a search pattern into a regular expression over the address (without 0x)
+ */
+export function compilePattern(pattern: string): RegExp {
+  const source = parsePattern(pattern)
+    .map(segment => segment.map(token => token.source).join(''))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Validates a search pattern, returning any problems found
+ */
+export function validatePattern(pattern: string): string[] {
+  let segments: PatternToken[][];
+  try {
+    segments = parsePattern(pattern);
+  } catch (error) {
+    return [`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`];
+  }
+  
+  const fixedLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+  if (fixedLength > 40) {
+    return [`Pattern describes ${fixedLength} characters but addresses only have 40`];
+  }
+  if (segments.length === 1 && fixedLength !== 40) {
+    return ['Pattern without "*" must describe all 40 characters; add "*" to leave the rest unconstrained'];
+  }
+  
+  return [];
+}
+
+/**
+ * Extracts the features that score rules are computed from
+ */
+export function getScoreInputs(address: string): ScoreInputs {
+  const hex = address.slice(2).toLowerCase();
+  
+  let leadingZeroNibbles = 0;
+  while (leadingZeroNibbles < hex.length && hex[leadingZeroNibbles] === '0') {
+    leadingZeroNibbles++;
+  }
+  
+  let zeroNibbles = 0;
+  let zeroBytes = 0;
+  for (let i = 0; i < hex.length; i += 2) {
+    const high = hex[i] === '0';
+    const low = hex[i + 1] === '0';
+    zeroNibbles += (high ? 1 : 0) + (low ? 1 : 0);
+    if (high && low) zeroBytes++;
+  }
+  
+  return {
+    address: hex,
+    leadingZeroNibbles,
+    leadingZeroBytes: Math.floor(leadingZeroNibbles / 2),
+    zeroNibbles,
+    zeroBytes
+  };
+}
+
+/**
+ * Address features a score expression can name
+ */
+const SCORE_VARIABLES: Record<string, (inputs: ScoreInputs) => number> = {
+  leadingZeroNibbles: inputs => inputs.leadingZeroNibbles,
+  leadingZeroBytes: inputs => inputs.leadingZeroBytes,
+  zeroNibbles: inputs => inputs.zeroNibbles,
+  zeroBytes: inputs => inputs.zeroBytes
+};
+
+/**
+ * Score expression functions over a set of hex characters, e.g. `count('0f')`
+ */
+const SCORE_CHARACTER_FUNCTIONS: Record<string, (address: string, chars: string) => number> = {
+  count: (address, chars) => [...address].filter(c => chars.includes(c)).length,
+  leading: (address, chars) => {
+    let length = 0;
+    while (length < address.length && chars.includes(address[length]!)) length++;
+    return length;
+  },
+  trailing: (address, chars) => {
+    let length = 0;
+    while (length < address.length && chars.includes(address[address.length - 1 - length]!)) length++;
+    return length;
+  }
+};
+
+/**
+ * Score expression functions over numbers, e.g. `min(zeroBytes, 4)`
+ */
+const SCORE_NUMBER_FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  min: Math.min,
+  max: Math.max
+};
+
+const SCORE_OPERATORS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b
+};
+
+interface ScoreToken {
+  type: 'number' | 'name' | 'text' | 'symbol';
+  value: string;
+  position: number;
+}
+
+type Evaluate = (inputs: ScoreInputs) => number;
+
+/**
+ * Looks a name up in a score expression table, ignoring inherited properties
+ * such as `constructor`
+ */
+function lookup<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.hasOwn(table, name) ? table[name] : undefined;
+}
+
+/**
+ * Splits a score expression into numbers, names, quoted text and operators
+ */
+function tokenizeScoreExpression(expression: string): ScoreToken[] {
+  const tokens: ScoreToken[] = [];
+  const token = /(\d+(?:\.\d+)?)|([A-Za-z_]\w*)|'([^']*)'|(\*\*|[-+*/%(),])/y;
+  let position = 0;
+  
+  while (position < expression.length) {
+    if (/\s/.test(expression[position]!)) {
+      position++;
+      continue;
+    }
+    
+    token.lastIndex = position;
+    const match = token.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression[position]}" at position ${position}`);
+    }
+    const [, number, name, text, symbol] = match;
+    const type = number !== undefined ? 'number' : name !== undefined ? 'name' : text !== undefined ? 'text' : 'symbol';
+    tokens.push({ type, value: number ?? name ?? text ?? symbol!, position });
+    position = token.lastIndex;
+  }
+  
+  return tokens;
+}
+
+/**
+ * Compiles a score expression into a function of an address's ScoreInputs
+ *
+ * Expressions are arithmetic (`+ - * / % **` and parentheses) over numbers,
+ * the ScoreInputs counts, `count`, `leading` and `trailing` of a set of hex
+ * characters and `min`/`max`. Nothing else is accepted, so an expression
+ * cannot run arbitrary code in the workers.
+ */
+export function compileScoreExpression(expression: string): (inputs: ScoreInputs) => number {
+  const tokens = tokenizeScoreExpression(expression);
+  let index = 0;
+  
+  const unexpected = () => {
+    const token = tokens[index];
+    return new Error(token ? `Unexpected "${token.value}" at position ${token.position}` : 'Unexpected end of expression');
+  };
+  const accept = (symbol: string) => {
+    const token = tokens[index];
+    if (token?.type === 'symbol' && token.value === symbol) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (symbol: string) => {
+    if (!accept(symbol)) throw unexpected();
+  };
+  
+  const parseBinary = (symbols: string[], parseOperand: () => Evaluate) => (): Evaluate => {
+    let left = parseOperand();
+    let symbol: string | undefined;
+    while ((symbol = symbols.find(accept)) !== undefined) {
+      const [a, b] = [left, parseOperand()];
+      const operate = SCORE_OPERATORS[symbol]!;
+      left = inputs => operate(a(inputs), b(inputs));
+    }
+    return left;
+  };
+  
+  const parseCall = (name: string): Evaluate => {
+    const characterFunction = lookup(SCORE_CHARACTER_FUNCTIONS, name);
+    if (characterFunction) {
+      const token = tokens[index];
+      if (token?.type !== 'text' || !/^[0-9a-f]+$/i.test(token.value)) {
+        throw new Error(`${name}() takes quoted hex characters, e.g. ${name}('0')`);
+      }
+      index++;
+      expect(')');
+      const chars = token.value.toLowerCase();
+      return inputs => characterFunction(inputs.address, chars);
+    }
+    
+    const numberFunction = lookup(SCORE_NUMBER_FUNCTIONS, name);
+    if (!numberFunction) {
+      throw new Error(`Unknown function "${name}"`);
+    }
+    const args = [parseSum()];
+    while (accept(',')) {
+      args.push(parseSum());
+    }
+    expect(')');
+    return inputs => numberFunction(...args.map(arg => arg(inputs)));
+  };
+  
+  const parsePrimary = (): Evaluate => {
+    const token = tokens[index];
+    if (token?.type === 'number') {
+      index++;
+      const value = Number(token.value);
+      return () => value;
+    }
+    if (token?.type === 'name') {
+      index++;
+      if (accept('(')) {
+        return parseCall(token.value);
+      }
+      const variable = lookup(SCORE_VARIABLES, token.value);
+      if (!variable) {
+        throw new Error(`Unknown name "${token.value}"; use ${Object.keys(SCORE_VARIABLES).join(', ')}`);
+      }
+      return variable;
+    }
+    if (accept('(')) {
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    throw unexpected();
+  };
+  
+  const parseUnary = (): Evaluate => {
+    if (accept('-')) {
+      const operand = parseUnary();
+      return inputs => -operand(inputs);
+    }
+    const base = parsePrimary();
+    if (accept('**')) {
+      const exponent = parseUnary();
+      return inputs => base(inputs) ** exponent(inputs);
+    }
+    return base;
+  };
+  
+  const parseProduct = parseBinary(['*', '/', '%'], parseUnary);
+  const parseSum: () => Evaluate = parseBinary(['+', '-'], parseProduct);
+  
+  const evaluate = parseSum();
+  if (index < tokens.length) {
+    throw unexpected();
+  }
+  return evaluate;
+}
+
+/**
+ * Builds a scoring function for an address (with 0x prefix)
+ *
+ * Custom expressions are compiled by compileScoreExpression, e.g.
+ * `leadingZeroBytes * 10 + zeroBytes`.
+ */
+export function createScorer(rule: ScoreRule, expression?: string): (address: string) => number {
+  switch (rule) {
+    case 'leading-zeros':
+      return (address) => getScoreInputs(address).leadingZeroNibbles;
+    case 'zero-bytes':
+      return (address) => getScoreInputs(address).zeroBytes;
+    case 'expression': {
+      const evaluate = compileScoreExpression(expression ?? '');
+      return (address) => evaluate(getScoreInputs(address));
+    }
+    default:
+      throw new Error(`Unknown score rule: ${rule}`);
+  }
+}
+
+/**
+ * Validates a custom score expression by compiling and evaluating it once
+ */
+export function validateScoreExpression(expression: string): string[] {
+  try {
+    const score = createScorer('expression', expression)(`0x${'0'.repeat(40)}`);
+    if (!Number.isFinite(score)) {
+      return ['Score expression must evaluate to a finite number'];
+    }
+  } catch (error) {
+    return [`Invalid score expression: ${error instanceof Error ? error.message : String(error)}`];
+  }
+  return [];
+}
+
+/**
+ * Gets a short label for the configured score rule
+ */
+export function getScoreLabel(config: Pick<GeneratorConfig, 'scoreRule' | 'scoreExpression'>): string {
+  const rule = config.scoreRule ?? 'leading-zeros';
+  return rule === 'expression' ? `${config.scoreExpression}` : rule;
 }
 
 /**
@@ -26,6 +507,8 @@ export function getSearchDescription(
   const caseNote = caseSensitive ? ' (case-sensitive)' : ' (case-insensitive)';
   
   switch (mode) {
+    case 'score':
+      return `maximizing score "${target}"`;
     case 'anywhere':
       return `containing "${target}" anywhere${caseNote}`;
     case 'start':
@@ -34,6 +517,8 @@ export function getSearchDescription(
       return `ending with "${target}"${caseNote}`;
     case 'position':
       return `with "${target}" at position ${position}${caseNote}`;
+    case 'pattern':
+      return `matching pattern "${target}"${caseNote}`;
     default:
       return `matching "${target}"${caseNote}`;
   }
@@ -64,23 +549,26 @@ export function formatTime(seconds: number): string {
 }
 
 /**
- * Calculates performance statistics
+ * Calculates performance statistics from each worker slot's attempts
  */
 export function calculatePerformanceStats(
-  totalAttempts: number,
+  workerAttempts: number[],
   startTime: number,
   lastUpdateTime: number,
   lastUpdateAttempts: number
 ): PerformanceStats {
+  const totalAttempts = workerAttempts.reduce((sum, attempts) => sum + attempts, 0);
   const currentTime = Date.now();
   const totalTime = (currentTime - startTime) / 1000;
   const intervalTime = (currentTime - lastUpdateTime) / 1000;
   
-  const avgAddressesPerSecond = totalAttempts / totalTime;
-  const currentAddressesPerSecond = (totalAttempts - lastUpdateAttempts) / intervalTime;
+  // A run can end in the same millisecond as the last update
+  const avgAddressesPerSecond = totalTime > 0 ? totalAttempts / totalTime : 0;
+  const currentAddressesPerSecond = intervalTime > 0 ? (totalAttempts - lastUpdateAttempts) / intervalTime : 0;
   
   return {
     totalAttempts,
+    workerAttempts,
     totalTime,
     avgAddressesPerSecond,
     currentAddressesPerSecond
@@ -88,73 +576,514 @@ export function calculatePerformanceStats(
 }
 
 /**
- * Validates the generator configuration
+ * Gets the list of targets to search for, whether given singly or as a batch
  */
-export function validateConfig(config: GeneratorConfig): string[] {
+export function getTargets(config: Pick<GeneratorConfig, 'target' | 'targets'>): string[] {
+  return config.targets && config.targets.length > 0 ? config.targets : [config.target];
+}
+
+/**
+ * Gets the number of matches required per target, Infinity in continuous mode
+ */
+export function getMatchesPerTarget(config: Pick<GeneratorConfig, 'count' | 'continuous'>): number {
+  return config.continuous ? Infinity : config.count ?? 1;
+}
+
+/**
+ * Validates a single target against the configured search mode
+ */
+function validateTargetForMode(target: string, config: GeneratorConfig): string[] {
   const errors: string[] = [];
   
-  if (!config.target || config.target.length === 0) {
+  if (!target || target.length === 0) {
     errors.push('Target string cannot be empty');
+    return errors;
+  }
+  
+  const format = getAddressFormat(config);
+  const unreachable = explainUnreachableTarget(target, config);
+  if (unreachable.length > 0) {
+    errors.push(...unreachable);
+  } else if (config.searchMode === 'pattern') {
+    errors.push(...validatePattern(target));
+  } else {
+    if (!validateTarget(target, format, config.caseSensitive)) {
+      errors.push(`Target must contain only ${format.characterName}s`);
+    }
+    
+    if (target.length > format.length) {
+      errors.push(`Target cannot be longer than ${format.length} characters`);
+    }
+  }
+  
+  if (config.searchMode === 'position' && config.position !== undefined) {
+    if (!validatePosition(config.position, target.length, format.length)) {
+      errors.push(`Position must be between 0 and ${format.length - target.length} for target length ${target.length}`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Validates the scoring rule, top K and budget for 'score' mode, which has
+ * no target to end the run
+ */
+function validateScoreConfig(config: GeneratorConfig): string[] {
+  const errors: string[] = [];
+  const validRules: ScoreRule[] = ['leading-zeros', 'zero-bytes', 'expression'];
+  const rule = config.scoreRule ?? 'leading-zeros';
+  
+  if (!validRules.includes(rule)) {
+    errors.push(`Score rule must be one of: ${validRules.join(', ')}`);
+  } else if (rule === 'expression') {
+    if (!config.scoreExpression) {
+      errors.push('Score expression is required for the expression score rule');
+    } else {
+      errors.push(...validateScoreExpression(config.scoreExpression));
+    }
   }
   
-  if (!validateTarget(config.target)) {
-    errors.push('Target must contain only hexadecimal characters (0-9, a-f, A-F)');
+  if (config.topK !== undefined && (!Number.isInteger(config.topK) || config.topK < 1)) {
+    errors.push('Top K must be a positive integer');
   }
+  if (config.maxTime === undefined && config.maxAttempts === undefined) {
+    errors.push('Score mode requires a time or attempt budget (max time or max attempts)');
+  }
+  return errors;
+}
+
+/**
+ * Validates the owners, threshold and deployment of a smart account search
+ */
+function validateSmartAccountConfig(config: GeneratorConfig): string[] {
+  const errors: string[] = [];
+  const type = config.addressType === 'safe' ? 'safe' : 'simple-account';
+  const owners = config.owners ?? [];
   
-  if (config.target.length > 40) {
-    errors.push('Target cannot be longer than 40 characters');
+  if (owners.length === 0) {
+    errors.push(`At least one owner must be specified for ${type} address type`);
+  }
+  for (const owner of owners) {
+    if (!validateAddress(owner)) {
+      errors.push(`Owner must be a 0x-prefixed 20-byte address: ${owner}`);
+    }
+  }
+  if (new Set(owners.map(owner => owner.toLowerCase())).size !== owners.length) {
+    errors.push('Owners must not repeat');
   }
   
-  if (config.searchMode === 'position') {
-    if (config.position === undefined) {
-      errors.push('Position must be specified for position search mode');
-    } else if (!validatePosition(config.position, config.target.length)) {
-      errors.push(`Position must be between 0 and ${40 - config.target.length} for target length ${config.target.length}`);
+  if (type === 'safe') {
+    const threshold = config.threshold ?? 1;
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > Math.max(owners.length, 1)) {
+      errors.push(`Threshold must be an integer from 1 to the number of owners (${owners.length})`);
     }
+  } else {
+    if (owners.length > 1) {
+      errors.push('Simple-account address type takes exactly one owner');
+    }
+    if (config.threshold !== undefined) {
+      errors.push('Threshold only applies to safe address type');
+    }
+  }
+  
+  if (config.accountVersion !== undefined && !SMART_ACCOUNT_VERSIONS[type].includes(config.accountVersion)) {
+    errors.push(`Account version for ${type} must be one of: ${SMART_ACCOUNT_VERSIONS[type].join(', ')}`);
+  }
+  if (config.factory !== undefined && !validateAddress(config.factory)) {
+    errors.push('Factory must be a 0x-prefixed 20-byte address');
+  }
+  if (config.singleton !== undefined && !validateAddress(config.singleton)) {
+    errors.push('Singleton must be a 0x-prefixed 20-byte address');
+  }
+  
+  return errors;
+}
+
+/**
+ * Validates the generator configuration
+ */
+export function validateConfig(config: GeneratorConfig): string[] {
+  const errors: string[] = [];
+  const targets = getTargets(config);
+  
+  if (config.chain !== undefined && !CHAINS.includes(config.chain)) {
+    return [`Chain must be one of: ${CHAINS.join(', ')}`];
+  }
+  if (config.bitcoinFormat !== undefined && !BITCOIN_FORMATS.includes(config.bitcoinFormat)) {
+    return [`Bitcoin format must be one of: ${BITCOIN_FORMATS.join(', ')}`];
+  }
+  if (config.bitcoinFormat !== undefined && config.chain !== 'bitcoin') {
+    return ['Bitcoin format only applies to bitcoin addresses'];
+  }
+  const format = getAddressFormat(config);
+  if (!format.searchModes.includes(config.searchMode)) {
+    errors.push(`Search mode ${config.searchMode} is not supported for ${format.chain} addresses`);
+  }
+  if (!format.addressTypes.includes(config.addressType ?? 'eoa')) {
+    errors.push(`Address type ${config.addressType} is not supported for ${format.chain} addresses`);
+  }
+  
+  if (config.searchMode === 'score') {
+    errors.push(...validateScoreConfig(config));
+  } else {
+    for (const target of targets) {
+      const targetErrors = validateTargetForMode(target, config);
+      errors.push(...(targets.length > 1 ? targetErrors.map(error => `${target}: ${error}`) : targetErrors));
+    }
+  }
+  
+  if (config.searchMode === 'position' && config.position === undefined) {
+    errors.push('Position must be specified for position search mode');
   }
   
   if (config.numWorkers < 1) {
     errors.push('Number of workers must be at least 1');
   }
   
+  if (config.addressType === 'create2') {
+    if (!config.deployer || !validateAddress(config.deployer)) {
+      errors.push('Deployer must be a 0x-prefixed 20-byte address for create2 address type');
+    }
+    if (!config.initCodeHash || !validateHash(config.initCodeHash)) {
+      errors.push('Init code hash must be a 0x-prefixed 32-byte hash for create2 address type');
+    }
+  }
+  
+  if (config.addressType === 'mnemonic') {
+    if (config.mnemonicWords !== undefined && config.mnemonicWords !== 12 && config.mnemonicWords !== 24) {
+      errors.push('Mnemonic must have 12 or 24 words');
+    }
+    const path = config.derivationPath ?? DEFAULT_DERIVATION_PATH;
+    if (!validateDerivationPath(path)) {
+      errors.push(`Invalid derivation path: ${path}`);
+    }
+    if (config.accountCount !== undefined && (!Number.isInteger(config.accountCount) || config.accountCount < 1)) {
+      errors.push('Account count must be a positive integer for mnemonic address type');
+    }
+    if ((config.accountCount ?? 1) > 1 && !path.includes('{index}')) {
+      errors.push('Derivation path must contain {index} to scan more than one account');
+    }
+  }
+  
+  if (config.addressType === 'split-key') {
+    if (!config.publicKey || !validatePublicKey(config.publicKey)) {
+      errors.push('Public key must be a 0x-prefixed secp256k1 public key for split-key address type');
+    } else if (!isValidPublicKey(config.publicKey)) {
+      errors.push('Public key is not a valid point on the secp256k1 curve');
+    }
+  }
+  
+  if (isSmartAccountType(config.addressType)) {
+    errors.push(...validateSmartAccountConfig(config));
+  }
+  
+  if (config.count !== undefined && (!Number.isInteger(config.count) || config.count < 1)) {
+    errors.push('Count must be a positive integer');
+  }
+  
+  if (config.maxTime !== undefined && !(config.maxTime > 0)) {
+    errors.push('Max time must be a positive number of seconds');
+  }
+  if (config.maxAttempts !== undefined && (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1)) {
+    errors.push('Max attempts must be a positive integer');
+  }
+  if (config.maxWorkerErrors !== undefined && (!Number.isInteger(config.maxWorkerErrors) || config.maxWorkerErrors < 0)) {
+    errors.push('Max worker errors must be a non-negative integer');
+  }
+  
+  if (config.addressType === 'create' && config.nonceCount !== undefined) {
+    if (!Number.isInteger(config.nonceCount) || config.nonceCount < 1) {
+      errors.push('Nonce count must be a positive integer for create address type');
+    }
+  }
+  
   return errors;
 }
 
 /**
- * Estimates the difficulty of finding a vanity address
+ * Gets warnings about target case that does not affect the search
+ *
+ * Case-sensitive matching compares against the EIP-55 checksum (or the
+ * address itself, for cased alphabets), where only letters carry case;
+ * without it, case in the target is ignored.
  */
-export function estimateDifficulty(target: string, mode: SearchMode, caseSensitive: boolean): {
-  difficulty: number;
-  description: string;
-} {
-  const targetLength = target.length;
-  const base = caseSensitive ? 16 : 16; // Hex base
+export function getConfigWarnings(config: GeneratorConfig): string[] {
+  if (config.searchMode === 'score') {
+    return [];
+  }
+  
+  return getTargets(config).flatMap(target => {
+    const letters = target.replace(/[^a-zA-Z]/g, '');
+    if (config.caseSensitive && letters.length === 0) {
+      return [`Target "${target}" has no letters, so case sensitivity has no effect (digits have no case)`];
+    }
+    if (!config.caseSensitive && /[A-F]/.test(letters)) {
+      return [`Target "${target}" has uppercase letters, which are ignored without case-sensitive matching`];
+    }
+    return [];
+  });
+}
+
+/**
+ * Gets the number of candidate addresses checked for each generated key
+ */
+export function getCandidatesPerAttempt(
+  config: Pick<GeneratorConfig, 'addressType' | 'nonceCount' | 'accountCount'>
+): number {
+  if (config.addressType === 'create') {
+    return config.nonceCount ?? 1;
+  }
+  if (config.addressType === 'mnemonic') {
+    return config.accountCount ?? 1;
+  }
+  return 1;
+}
+
+/**
+ * Gets the approximate cost of one attempt relative to generating a single key
+ *
+ * A mnemonic attempt runs 2048 rounds of PBKDF2-HMAC-SHA512 to get the seed,
+ * then a BIP-32 derivation per scanned index. A Solana keypair needs a full
+ * ed25519 scalar multiplication rather than one step of the point walk, and
+ * a Taproot key two secp256k1 ones for the tweak.
+ */
+export function getRelativeAttemptCost(
+  config: Pick<GeneratorConfig, 'chain' | 'bitcoinFormat' | 'addressType' | 'nonceCount' | 'accountCount'>
+): number {
+  if (config.chain === 'solana') {
+    return 5;
+  }
+  if (config.chain === 'bitcoin' && config.bitcoinFormat === 'p2tr') {
+    return 25;
+  }
+  if (config.addressType === 'mnemonic') {
+    return 50 + 8 * (config.accountCount ?? 1);
+  }
+  return 1;
+}
+
+/**
+ * Gets the unit counted by one attempt, for throughput reporting
+ */
+export function getAttemptUnit(config: Pick<GeneratorConfig, 'addressType'>): string {
+  switch (config.addressType) {
+    case 'mnemonic':
+      return 'mnemonics';
+    case 'create2':
+    case 'safe':
+    case 'simple-account':
+      return 'salts';
+    case 'create':
+    case 'split-key':
+      return 'keys';
+    default:
+      return 'addr';
+  }
+}
+
+
+/**
+ * Ethereum address length in hex characters, without 0x (patterns are Ethereum-only)
+ */
+const ADDRESS_LENGTH = 40;
+
+/**
+ * Confidence levels reported for completion time estimates
+ */
+export const CONFIDENCE_LEVELS = [0.5, 0.9, 0.99];
+
+/**
+ * Gets the probability that one address character matches a target character
+ *
+ * Every character is uniform over the alphabet. When matching
+ * case-sensitively against the EIP-55 checksum, a letter's case is an extra
+ * hash bit, so each letter is half as likely; digits have no case. In a cased
+ * alphabet, ignoring case lets a letter match each of its cases.
+ */
+function getCharProbability(char: string, caseSensitive: boolean, format: AddressFormat): number {
+  const p = 1 / format.alphabet.length;
+  if (format.caseMode === 'checksum') {
+    return caseSensitive && /[a-zA-Z]/.test(char) ? p / 2 : p;
+  }
+  return caseSensitive ? p : [...format.alphabet].filter(c => c.toLowerCase() === char.toLowerCase()).length * p;
+}
+
+/**
+ * Gets the probability that an address is at least `length` characters long
+ * (after its prefix)
+ */
+function getLengthProbability(length: number, format: AddressFormat): number {
+  if (length > format.length) {
+    return 0;
+  }
+  return format.getLengthProbability?.(length) ?? 1;
+}
+
+/**
+ * Gets the probability that a random address contains the target somewhere
+ *
+ * Counting placements overestimates for self-overlapping targets such as
+ * "aaaa", so this runs the target's KMP automaton over the address and
+ * tracks the probability of each partial-match state. In variable-length
+ * encodings, each length's addresses stop the automaton where they end.
+ */
+function getContainsProbability(target: string, caseSensitive: boolean, format: AddressFormat): number {
+  const length = target.length;
+  if (length > format.length) {
+    return 0;
+  }
+  
+  // Each distinct address symbol with its probability
+  const lowered = [...new Set([...format.alphabet].map(char => char.toLowerCase()))];
+  const chars = !caseSensitive
+    ? lowered
+    : format.caseMode === 'checksum'
+      ? [...lowered, ...lowered.filter(char => /[a-z]/.test(char)).map(char => char.toUpperCase())]
+      : [...format.alphabet];
+  const symbols = chars.map(char => ({ char, p: getCharProbability(char, caseSensitive, format) }));
+  
+  const failure = new Array<number>(length).fill(0);
+  for (let i = 1, k = 0; i < length; i++) {
+    while (k > 0 && target[i] !== target[k]) k = failure[k - 1]!;
+    if (target[i] === target[k]) k++;
+    failure[i] = k;
+  }
+  
+  const next = (state: number, char: string): number => {
+    while (state > 0 && target[state] !== char) state = failure[state - 1]!;
+    return target[state] === char ? state + 1 : 0;
+  };
+  
+  let states = new Array<number>(length + 1).fill(0);
+  states[0] = 1;
+  let probability = 0;
+  for (let position = 0; position < format.length; position++) {
+    const updated = new Array<number>(length + 1).fill(0);
+    updated[length] = states[length]!;
+    for (let state = 0; state < length; state++) {
+      if (states[state] === 0) continue;
+      for (const { char, p } of symbols) {
+        updated[next(state, char)]! += states[state]! * p;
+      }
+    }
+    states = updated;
+    
+    const endingHere = getLengthProbability(position + 1, format) - getLengthProbability(position + 2, format);
+    probability += endingHere * states[length]!;
+  }
+  
+  return probability;
+}
+
+/**
+ * Estimates the probability of matching a search pattern
+ *
+ * Segments anchored to the start or end of the address contribute their full
+ * probability; floating segments between '*' get one chance per placement.
+ */
+function estimatePatternProbability(pattern: string, caseSensitive: boolean): number {
+  const segments = parsePattern(pattern);
+  // Literal letters must also have the right checksum case
+  const caseFactor = (token: PatternToken) => (caseSensitive && /^[a-fA-F]$/.test(token.source) ? 1 / 2 : 1);
+  const probabilityOf = (segment: PatternToken[]) =>
+    segment.reduce((p, token) => p * (token.choices / 16) * caseFactor(token), 1);
+  
+  if (segments.length === 1) {
+    return probabilityOf(segments[0]!);
+  }
+  
+  const anchored = [segments[0]!, segments[segments.length - 1]!];
+  const floating = segments.slice(1, -1).filter(segment => segment.length > 0);
+  const fixedLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+  
+  let probability = anchored.reduce((p, segment) => p * probabilityOf(segment), 1);
+  for (const segment of floating) {
+    const placements = Math.max(1, ADDRESS_LENGTH - fixedLength + 1);
+    probability *= Math.min(1, probabilityOf(segment) * placements);
+  }
+  
+  return probability;
+}
+
+/**
+ * Gets the probability that a single address matches the target
+ *
+ * `position` is the target's offset in 'position' mode.
+ */
+export function getMatchProbability(
+  target: string,
+  mode: SearchMode,
+  caseSensitive: boolean,
+  format: AddressFormat = getAddressFormat(),
+  position = 0
+): number {
+  const processed = caseSensitive ? target : target.toLowerCase();
   
-  let difficulty: number;
-  let description: string;
+  if (mode === 'start' && format.getStartProbability) {
+    // Leading characters are not uniform in this encoding
+    return format.getStartProbability(processed, caseSensitive);
+  }
   
   switch (mode) {
-    case 'start':
-      difficulty = Math.pow(base, targetLength);
-      description = `~1 in ${formatNumber(difficulty)}`;
-      break;
-    case 'end':
-      difficulty = Math.pow(base, targetLength);
-      description = `~1 in ${formatNumber(difficulty)}`;
-      break;
-    case 'position':
-      difficulty = Math.pow(base, targetLength);
-      description = `~1 in ${formatNumber(difficulty)}`;
-      break;
     case 'anywhere':
-      // More complex calculation for anywhere mode
-      difficulty = Math.pow(base, targetLength) / (40 - targetLength + 1);
-      description = `~1 in ${formatNumber(Math.round(difficulty))}`;
-      break;
-    default:
-      difficulty = Math.pow(base, targetLength);
-      description = `~1 in ${formatNumber(difficulty)}`;
+      return getContainsProbability(processed, caseSensitive, format);
+    case 'pattern':
+      return estimatePatternProbability(target, caseSensitive);
+    default: {
+      // start, end and position fix every character, of addresses long enough to have them
+      const reach = (mode === 'position' ? position : 0) + processed.length;
+      const characters = [...processed].reduce((p, char) => p * getCharProbability(char, caseSensitive, format), 1);
+      return getLengthProbability(reach, format) * characters;
+    }
   }
+}
+
+/**
+ * Gets the probability of at least one match within a number of attempts
+ *
+ * Attempts are independent, so the number needed is geometric.
+ */
+export function getSuccessProbability(probability: number, attempts: number): number {
+  return -Math.expm1(attempts * Math.log1p(-probability));
+}
+
+/**
+ * Gets the number of attempts after which a match has been found with the given confidence
+ */
+export function getAttemptsForConfidence(probability: number, confidence: number): number {
+  if (probability >= 1) {
+    return 1;
+  }
+  return Math.log1p(-confidence) / Math.log1p(-probability);
+}
+
+/**
+ * Estimates the difficulty of finding a vanity address
+ *
+ * `candidatesPerAttempt` is the number of addresses checked per attempt
+ * (e.g. several deployer nonces per key), each one an extra chance to match.
+ * `difficulty` is the expected number of attempts ("1 in N").
+ */
+export function estimateDifficulty(
+  target: string,
+  mode: SearchMode,
+  caseSensitive: boolean,
+  candidatesPerAttempt = 1,
+  format: AddressFormat = getAddressFormat(),
+  position = 0
+): {
+  probability: number;
+  difficulty: number;
+  description: string;
+} {
+  const single = getMatchProbability(target, mode, caseSensitive, format, position);
+  const probability = getSuccessProbability(single, candidatesPerAttempt);
+  const difficulty = 1 / probability;
   
-  return { difficulty, description };
-} 
\ No newline at end of file
+  return {
+    probability,
+    difficulty,
+    description: `~1 in ${formatNumber(Math.round(difficulty))}`
+  };
+}
@@ -0,0 +1,203 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { HDKey } from '@scure/bip32';
+import { mnemonicToSeedSync } from '@scure/bip39';
+import { base58, bech32, bech32m } from '@scure/base';
+import { checksumAddress, getContractAddress, hexToBytes, toHex, type Address, type Hex } from 'viem';
+import { privateKeyToAccount, publicKeyToAddress } from 'viem/accounts';
+import { base58check } from './base58.js';
+import { fromWif, toBitcoinAddress, toTaprootAddress } from './bitcoin.js';
+import { createMatcher } from './matcher.js';
+import { getSmartAccountAddress } from './smartaccount.js';
+import { toTronAddress } from './tron.js';
+import { getSearchDescription } from './utils.js';
+import type { GeneratorConfig, SearchMode, VanityAddressResult, VerificationCheck, VerificationReport } from './types.js';
+
+const { ProjectivePoint } = secp256k1;
+
+/**
+ * Gets the uncompressed public key (x || y, without the 04 byte) of a secp256k1 private key
+ */
+function getPoint(privateKey: Uint8Array): Uint8Array {
+  return secp256k1.getPublicKey(privateKey, false).subarray(1);
+}
+
+/**
+ * Derives the Ethereum address a result's secret controls
+ *
+ * The secret the result carries decides how: a mnemonic is derived along
+ * its path, a partial key is added to the requester's public key, a salt
+ * gives a CREATE2 address, a smart account deployment the address its
+ * factory call deploys to and a key with a nonce a CREATE address from the
+ * deployer it controls.
+ */
+function deriveEthereumAddress(result: Partial<VanityAddressResult>, config: Partial<GeneratorConfig>): string | undefined {
+  if (result.deployment) {
+    return getSmartAccountAddress(result.deployment);
+  }
+
+  if (result.mnemonic && result.derivationPath) {
+    const root = HDKey.fromMasterSeed(mnemonicToSeedSync(result.mnemonic, config.passphrase ?? ''));
+    return privateKeyToAccount(toHex(root.derive(result.derivationPath).privateKey!)).address;
+  }
+
+  if (result.partialKey) {
+    if (!config.publicKey) {
+      throw new Error("Split-key results need the requester's public key");
+    }
+    const combined = ProjectivePoint.fromHex(config.publicKey.replace(/^0x/, ''))
+      .add(ProjectivePoint.BASE.multiply(BigInt(result.partialKey)));
+    return publicKeyToAddress(`0x${combined.toHex(false)}`);
+  }
+
+  if (result.salt) {
+    if (!config.deployer || !config.initCodeHash) {
+      throw new Error('CREATE2 results need the deployer and init code hash');
+    }
+    return getContractAddress({
+      opcode: 'CREATE2',
+      from: config.deployer as Address,
+      salt: result.salt as Hex,
+      bytecodeHash: config.initCodeHash as Hex
+    });
+  }
+
+  if (!result.privateKey) {
+    return undefined;
+  }
+  const account = privateKeyToAccount(result.privateKey as Hex).address;
+  if (result.nonce === undefined) {
+    return account;
+  }
+  if (result.deployer && account !== checksumAddress(result.deployer as Address)) {
+    throw new Error(`Key controls deployer ${account}, not ${result.deployer}`);
+  }
+  return getContractAddress({ opcode: 'CREATE', from: account, nonce: BigInt(result.nonce) });
+}
+
+/**
+ * Derives the address a result's secret controls, or undefined when the
+ * result carries no secret (for example, after it was written to a keystore)
+ */
+export function deriveAddress(result: Partial<VanityAddressResult>, config: Partial<GeneratorConfig>): string | undefined {
+  switch (config.chain) {
+    case 'solana': {
+      if (!result.keypair) return undefined;
+      const publicKey = ed25519.getPublicKey(Uint8Array.from(result.keypair.slice(0, 32)));
+      if (toHex(publicKey) !== toHex(Uint8Array.from(result.keypair.slice(32)))) {
+        throw new Error('Keypair holds a public key that does not belong to its seed');
+      }
+      return base58.encode(publicKey);
+    }
+    case 'tron':
+      return result.privateKey && toTronAddress(getPoint(hexToBytes(`0x${result.privateKey}`)));
+    case 'bitcoin': {
+      if (!result.wif) return undefined;
+      const privateKey = fromWif(result.wif);
+      const format = config.bitcoinFormat ?? 'p2wpkh';
+      return format === 'p2tr' ? toTaprootAddress(privateKey) : toBitcoinAddress(getPoint(privateKey), format);
+    }
+    default:
+      return deriveEthereumAddress(result, config);
+  }
+}
+
+/**
+ * Checks that an address is well formed for its chain, returning the
+ * checksum scheme it was checked against
+ */
+function checkAddressEncoding(address: string, config: GeneratorConfig): { scheme: string; valid: boolean } {
+  switch (config.chain) {
+    case 'solana':
+      return { scheme: 'base58 public key (no checksum)', valid: base58.decode(address).length === 32 };
+    case 'tron': {
+      const payload = base58check.decode(address);
+      return { scheme: 'Base58Check checksum', valid: payload.length === 21 && payload[0] === 0x41 };
+    }
+    case 'bitcoin': {
+      const format = config.bitcoinFormat ?? 'p2wpkh';
+      if (format === 'p2pkh') {
+        const payload = base58check.decode(address);
+        return { scheme: 'Base58Check checksum', valid: payload.length === 21 && payload[0] === 0x00 };
+      }
+      const [coder, version, length] = format === 'p2tr' ? [bech32m, 1, 32] : [bech32, 0, 20];
+      const decoded = coder.decodeUnsafe(address);
+      const valid = !!decoded && decoded.prefix === 'bc' && decoded.words[0] === version
+        && coder.fromWordsUnsafe(decoded.words.slice(1))?.length === length;
+      return { scheme: format === 'p2tr' ? 'Bech32m checksum' : 'Bech32 checksum', valid };
+    }
+    default:
+      return {
+        scheme: 'EIP-55 checksum',
+        valid: /^0x[0-9a-fA-F]{40}$/.test(address) && checksumAddress(address as Address) === address
+      };
+  }
+}
+
+/**
+ * Recovers the search mode, case sensitivity and position a result was
+ * found with from its recorded search description
+ */
+export function getRecordedSearch(
+  result: Pick<VanityAddressResult, 'target' | 'searchDescription'>
+): Pick<GeneratorConfig, 'searchMode' | 'caseSensitive' | 'position'> | undefined {
+  const modes: SearchMode[] = ['start', 'end', 'anywhere', 'position', 'pattern'];
+  const position = Number(/ at position (\d+) /.exec(result.searchDescription)?.[1]);
+  for (const searchMode of modes) {
+    for (const caseSensitive of [false, true]) {
+      if (getSearchDescription(result.target, searchMode, caseSensitive, position) === result.searchDescription) {
+        return { searchMode, caseSensitive, position: searchMode === 'position' ? position : undefined };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Verifies a result offline
+ *
+ * Re-derives the address from the secret, checks the address's own checksum
+ * and re-runs the matcher the workers use against the result's target. When
+ * the result records a search description, it must agree with the
+ * configuration too.
+ */
+export function verifyResult(result: VanityAddressResult, config: GeneratorConfig): VerificationReport {
+  const { address } = result;
+  const checks: VerificationCheck[] = [];
+
+  try {
+    const derived = deriveAddress(result, config);
+    const source = result.deployment ? 'Deployment call' : 'Secret';
+    const matches = config.chain === undefined || config.chain === 'ethereum'
+      ? derived?.toLowerCase() === address.toLowerCase()
+      : derived === address;
+    checks.push({
+      name: 'key',
+      passed: matches,
+      detail: derived === undefined
+        ? 'No secret to derive the address from'
+        : matches ? `${source} derives the address` : `${source} derives ${derived}`
+    });
+  } catch (error) {
+    checks.push({ name: 'key', passed: false, detail: error instanceof Error ? error.message : String(error) });
+  }
+
+  try {
+    const { scheme, valid } = checkAddressEncoding(address, config);
+    checks.push({ name: 'checksum', passed: valid, detail: valid ? `Valid ${scheme}` : `Invalid ${scheme}` });
+  } catch (error) {
+    checks.push({ name: 'checksum', passed: false, detail: error instanceof Error ? error.message : String(error) });
+  }
+
+  const description = getSearchDescription(result.target, config.searchMode, config.caseSensitive, config.position);
+  const matcher = createMatcher({ ...config, target: result.target, targets: undefined });
+  if (result.searchDescription && result.searchDescription !== description) {
+    checks.push({ name: 'target', passed: false, detail: `Recorded as ${result.searchDescription}, checked as ${description}` });
+  } else if (matcher(address) === -1) {
+    checks.push({ name: 'target', passed: false, detail: `Does not satisfy the search: ${description}` });
+  } else {
+    checks.push({ name: 'target', passed: true, detail: `Satisfies the search: ${description}` });
+  }
+
+  return { address, passed: checks.every(check => check.passed), checks };
+}
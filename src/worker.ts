@@ -1,150 +1,115 @@
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
-import type { WorkerMessage, WorkerResult, GeneratorConfig, SearchMode } from './types.js';
+import type { WorkerMessage, WorkerResult, GeneratorConfig, SharedRunState } from './types.js';
 
 /**
- * Checks if an address matches the target criteria
+ * worker_threads, loaded only where the runtime has no Web Workers (Node)
  */
-function matchesTarget(
-  address: string,
-  target: string,
-  mode: SearchMode,
-  caseSensitive: boolean,
-  position?: number
-): boolean {
-  const addr = address.slice(2); // Remove '0x' prefix
-  const processedAddr = caseSensitive ? addr : addr.toLowerCase();
-  const processedTarget = caseSensitive ? target : target.toLowerCase();
-  
-  switch (mode) {
-    case 'anywhere':
-      return processedAddr.includes(processedTarget);
-    case 'start':
-      return processedAddr.startsWith(processedTarget);
-    case 'end':
-      return processedAddr.endsWith(processedTarget);
-    case 'position':
-      if (position === undefined) return false;
-      return processedAddr.slice(position, position + processedTarget.length) === processedTarget;
-    default:
-      throw new Error(`Unknown search mode: ${mode}`);
-  }
+const nodeThreads = typeof globalThis.Worker === 'function' ? undefined : await import('node:worker_threads');
+
+/**
+ * A running search worker, whichever backend created it
+ */
+export interface SearchWorker {
+  postMessage(message: WorkerMessage): void;
+  terminate(): void;
 }
 
 /**
- * Worker script that generates vanity addresses
+ * Gets the URL of the worker entry module next to this one
+ *
+ * Under Bun the sources run directly, so the entry keeps its .ts extension;
+ * the published build emits it as .js alongside the entry points.
  */
-export function createWorkerScript(): string {
-  return `
-    import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+function getWorkerUrl(): URL {
+  const extension = import.meta.url.endsWith('.ts') ? '.ts' : '.js';
+  return new URL(`./thread${extension}`, import.meta.url);
+}
 
-    // Copy the matchesTarget function into the worker
-    function matchesTarget(address, target, mode, caseSensitive, position) {
-      const addr = address.slice(2);
-      const processedAddr = caseSensitive ? addr : addr.toLowerCase();
-      const processedTarget = caseSensitive ? target : target.toLowerCase();
-      
-      switch (mode) {
-        case 'anywhere':
-          return processedAddr.includes(processedTarget);
-        case 'start':
-          return processedAddr.startsWith(processedTarget);
-        case 'end':
-          return processedAddr.endsWith(processedTarget);
-        case 'position':
-          if (position === undefined) return false;
-          return processedAddr.slice(position, position + processedTarget.length) === processedTarget;
-        default:
-          throw new Error(\`Unknown search mode: \${mode}\`);
-      }
-    }
+/**
+ * Creates a Web Worker (Bun, browsers)
+ */
+function createWebWorker(
+  onMessage: (result: WorkerResult) => void,
+  onError: (error: Error) => void
+): SearchWorker {
+  const worker = new Worker(getWorkerUrl(), { type: 'module' });
 
-    let shouldStop = false;
-    let attempts = 0;
-    const PROGRESS_INTERVAL = 1000;
+  worker.onmessage = (e: MessageEvent<WorkerResult>) => {
+    onMessage(e.data);
+  };
 
-    self.onmessage = function(e) {
-      const message = e.data;
-      
-      if (message.type === 'start') {
-        const config = message.config;
-        
-        try {
-          while (!shouldStop) {
-            const priv = generatePrivateKey();
-            const account = privateKeyToAccount(priv);
-            
-            if (matchesTarget(account.address, config.target, config.searchMode, config.caseSensitive, config.position)) {
-              self.postMessage({
-                type: 'found',
-                data: {
-                  address: account.address,
-                  privateKey: priv,
-                  attempts: attempts + 1
-                }
-              });
-              break;
-            }
-            
-            attempts++;
-            
-            if (attempts % PROGRESS_INTERVAL === 0) {
-              self.postMessage({
-                type: 'progress',
-                attempts: PROGRESS_INTERVAL
-              });
-              attempts = 0;
-            }
-          }
-        } catch (error) {
-          self.postMessage({
-            type: 'error',
-            error: error.message
-          });
-        }
-      } else if (message.type === 'stop') {
-        shouldStop = true;
-      }
-    };
-  `;
+  worker.onerror = (error: ErrorEvent) => {
+    onError(new Error(`Worker error: ${error.message}`));
+  };
+
+  return worker;
+}
+
+/**
+ * Creates a worker_threads worker (Node)
+ */
+function createNodeWorker(
+  onMessage: (result: WorkerResult) => void,
+  onError: (error: Error) => void
+): SearchWorker {
+  const worker = new nodeThreads!.Worker(getWorkerUrl());
+
+  worker.on('message', onMessage);
+  worker.on('error', (error: Error) => {
+    onError(new Error(`Worker error: ${error.message}`));
+  });
+  // Also catches a worker that exits without throwing; after an error or
+  // terminate() the worker has already been replaced, so this is ignored
+  worker.on('exit', (code: number) => {
+    onError(new Error(`Worker exited with code ${code}`));
+  });
+
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    terminate: () => void worker.terminate()
+  };
 }
 
 /**
  * Creates a new worker for vanity address generation
+ *
+ * Uses Web Workers where the runtime provides them and falls back to
+ * worker_threads under Node. The worker counts its attempts in its slot of
+ * the run's shared memory and stops when the run's stop flag is set.
  */
 export function createWorker(
   config: GeneratorConfig,
+  shared: SharedRunState,
+  slot: number,
   onMessage: (result: WorkerResult) => void,
   onError: (error: Error) => void
-): Worker {
-  const workerScript = createWorkerScript();
-  const worker = new Worker(
-    URL.createObjectURL(new Blob([workerScript], { type: 'application/javascript' }))
-  );
-  
-  worker.onmessage = (e) => {
-    const result: WorkerResult = e.data;
-    onMessage(result);
-  };
-  
-  worker.onerror = (error) => {
-    onError(new Error(`Worker error: ${error.message}`));
-  };
-  
+): SearchWorker {
+  const worker = nodeThreads
+    ? createNodeWorker(onMessage, onError)
+    : createWebWorker(onMessage, onError);
+
   // Start the worker
   const message: WorkerMessage = {
     type: 'start',
-    config
+    config,
+    shared,
+    slot
   };
   worker.postMessage(message);
-  
+
   return worker;
 }
 
 /**
- * Terminates a worker safely
+ * Starts a worker for a slot of a run, with the signature of createWorker
  */
-export function terminateWorker(worker: Worker): void {
-  const message: WorkerMessage = { type: 'stop' };
-  worker.postMessage(message);
+export type WorkerFactory = typeof createWorker;
+
+/**
+ * Terminates a worker
+ *
+ * Workers are told to stop through the run's stop flag; this frees the
+ * thread once they have.
+ */
+export function terminateWorker(worker: SearchWorker): void {
   worker.terminate();
-} 
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { HDKey } from '@scure/bip32';
+import { mnemonicToSeedSync } from '@scure/bip39';
+import { getAddress, hexToBytes, toHex } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+import { base58check } from '../src/base58.js';
+import { fromWif, toBitcoinAddress, toTaprootAddress, toWif } from '../src/bitcoin.js';
+import { toTronAddress } from '../src/tron.js';
+import { deriveAddress } from '../src/verify.js';
+
+/**
+ * Private key 1, whose public key is the generator point used by the
+ * BIP-173 examples
+ */
+const KEY_ONE = hexToBytes(`0x${'0'.repeat(63)}1`);
+
+function getPoint(privateKey: Uint8Array): Uint8Array {
+  return secp256k1.getPublicKey(privateKey, false).subarray(1);
+}
+
+describe('Bitcoin addresses', () => {
+  test('encodes the BIP-173 P2WPKH example', () => {
+    expect(toBitcoinAddress(getPoint(KEY_ONE), 'p2wpkh')).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+  });
+
+  test('encodes the compressed P2PKH address of the same key', () => {
+    expect(toBitcoinAddress(getPoint(KEY_ONE), 'p2pkh')).toBe('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+  });
+
+  test('encodes the BIP-86 Taproot vector', () => {
+    // m/86'/0'/0'/0/0 of the BIP-86 test mnemonic
+    const seed = mnemonicToSeedSync('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+    const privateKey = HDKey.fromMasterSeed(seed).derive("m/86'/0'/0'/0/0").privateKey!;
+    expect(toTaprootAddress(privateKey)).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+  });
+});
+
+describe('Wallet Import Format', () => {
+  test('encodes the compressed WIF of key 1', () => {
+    expect(toWif(KEY_ONE)).toBe('KwDiBf89QgGbjEhKnhXJuH7LrciVrZi3qYjgd9M7rFU73sVHnoWn');
+  });
+
+  test('round-trips random keys', () => {
+    const key = secp256k1.utils.randomPrivateKey();
+    expect(fromWif(toWif(key))).toEqual(key);
+  });
+
+  test('rejects uncompressed and corrupted WIFs', () => {
+    // Uncompressed WIF of key 1
+    expect(() => fromWif('5HpHagT65TZzG1PH3CSu63k8DbpvD8s5ip4nEB3kEsreAnchuDf')).toThrow('compressed mainnet');
+    expect(() => fromWif('KwDiBf89QgGbjEhKnhXJuH7LrciVrZi3qYjgd9M7rFU73sVHnoWo')).toThrow();
+  });
+
+  test('derives each format from a WIF', () => {
+    const wif = toWif(KEY_ONE);
+    expect(deriveAddress({ wif }, { chain: 'bitcoin', bitcoinFormat: 'p2wpkh' })).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+    expect(deriveAddress({ wif }, { chain: 'bitcoin', bitcoinFormat: 'p2pkh' })).toBe('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH');
+  });
+});
+
+describe('Tron addresses', () => {
+  test('carry the Ethereum address of the same key after the 0x41 version byte', () => {
+    const key = secp256k1.utils.randomPrivateKey();
+    const address = toTronAddress(getPoint(key));
+    const payload = base58check.decode(address);
+    expect(address[0]).toBe('T');
+    expect(payload[0]).toBe(0x41);
+    expect(getAddress(toHex(payload.subarray(1)))).toBe(privateKeyToAddress(toHex(key)));
+  });
+
+  test('detects a corrupted Base58Check checksum', () => {
+    const address = toTronAddress(getPoint(KEY_ONE));
+    const corrupted = address.slice(0, -1) + (address.endsWith('1') ? '2' : '1');
+    expect(() => base58check.decode(corrupted)).toThrow();
+  });
+});
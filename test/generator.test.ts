@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { VanityGenerator } from '../src/generator.js';
+import type { WorkerFactory } from '../src/worker.js';
+import type { GeneratorConfig, RunSummary, WorkerRestart } from '../src/types.js';
+
+/** A search that will not find its target within the budgets below */
+const config: GeneratorConfig = {
+  target: 'ffffffffffff',
+  searchMode: 'start',
+  caseSensitive: false,
+  numWorkers: 2
+};
+
+/**
+ * Starts a generator, recording the events it emits until 'completed'
+ */
+function run(generator: VanityGenerator): Promise<{ events: string[]; summary: RunSummary }> {
+  const events: string[] = [];
+  for (const event of ['stopped', 'budgetExhausted', 'error'] as const) {
+    generator.on(event, () => events.push(event));
+  }
+  return new Promise(resolve => {
+    generator.on('completed', summary => {
+      events.push('completed');
+      resolve({ events, summary });
+    });
+    generator.start();
+  });
+}
+
+describe('VanityGenerator', () => {
+  test('makes exactly max attempts across its workers', async () => {
+    const { events, summary } = await run(new VanityGenerator({ ...config, maxAttempts: 500 }));
+
+    expect(events).toEqual(['stopped', 'budgetExhausted', 'completed']);
+    expect(summary.reason).toBe('budget');
+    expect(summary.stats.totalAttempts).toBe(500);
+    expect(summary.stats.workerAttempts.reduce((sum, attempts) => sum + attempts, 0)).toBe(500);
+    expect(summary.workers.map(worker => worker.status)).toEqual(['stopped', 'stopped']);
+  }, 30_000);
+
+  test('reports a match made on the last attempt of the budget', async () => {
+    // One slow attempt, deriving many accounts from a mnemonic, that the
+    // budget check samples while it is still being made
+    const generator = new VanityGenerator({
+      ...config,
+      target: '*',
+      searchMode: 'pattern',
+      numWorkers: 1,
+      addressType: 'mnemonic',
+      accountCount: 50,
+      maxAttempts: 1,
+      count: 2
+    });
+    const found: string[] = [];
+    generator.on('found', result => found.push(result.address));
+
+    const { events, summary } = await run(generator);
+
+    expect(found).toHaveLength(1);
+    expect(events).toEqual(['stopped', 'budgetExhausted', 'completed']);
+    expect(summary.reason).toBe('budget');
+    expect(summary.found).toBe(1);
+    expect(summary.stats.totalAttempts).toBe(1);
+  }, 30_000);
+
+  test('fails once, after the worker error budget is used up', async () => {
+    // Every worker crashes as soon as it starts
+    let started = 0;
+    let terminated = 0;
+    const crashingWorker: WorkerFactory = (_config, _shared, _slot, _onMessage, onError) => {
+      started++;
+      setTimeout(() => onError(new Error(`boom ${started}`)), 0);
+      return { postMessage: () => {}, terminate: () => void terminated++ };
+    };
+    const generator = new VanityGenerator({ ...config, numWorkers: 1, maxWorkerErrors: 1 }, crashingWorker);
+    const restarts: WorkerRestart[] = [];
+    const errors: Error[] = [];
+    generator.on('workerRestarted', restart => restarts.push(restart));
+    generator.on('error', error => errors.push(error));
+
+    const { events, summary } = await run(generator);
+
+    expect(restarts).toEqual([{ id: 0, error: 'boom 1', delay: 100, restarts: 1, errors: 1, maxErrors: 1 }]);
+    expect(events).toEqual(['stopped', 'error', 'completed']);
+    expect(errors.map(error => error.message)).toEqual(['Too many worker errors (more than 1); last: boom 2']);
+    expect(summary.reason).toBe('failed');
+    expect(summary.workers).toMatchObject([{ id: 0, status: 'failed', errors: 2, restarts: 1, lastError: 'boom 2' }]);
+    expect([started, terminated]).toEqual([2, 2]);
+
+    // The run has settled, so stopping it again emits nothing
+    generator.stop();
+    expect(events).toHaveLength(3);
+  }, 30_000);
+});
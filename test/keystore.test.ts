@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { decryptKeystore, encryptKeystore } from '../src/keystore.js';
+import type { KeystoreV3 } from '../src/types.js';
+
+/**
+ * Test vectors from the Web3 Secret Storage Definition, both encrypting
+ * this key with the password "testpassword"
+ */
+const PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const PASSWORD = 'testpassword';
+
+const PBKDF2_KEYSTORE: KeystoreV3 = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  address: '008aeeda4d805471df9b2a5b0f38a0c3bcba786b',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd'
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2'
+  }
+};
+
+const SCRYPT_KEYSTORE: KeystoreV3 = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  address: '008aeeda4d805471df9b2a5b0f38a0c3bcba786b',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      r: 1,
+      p: 8,
+      salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19'
+    },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097'
+  }
+};
+
+describe('Web3 Secret Storage vectors', () => {
+  test('decrypts the PBKDF2 vector', () => {
+    expect(decryptKeystore(PBKDF2_KEYSTORE, PASSWORD)).toBe(PRIVATE_KEY);
+  });
+
+  test('decrypts the scrypt vector', () => {
+    expect(decryptKeystore(SCRYPT_KEYSTORE, PASSWORD)).toBe(PRIVATE_KEY);
+  }, 30_000);
+
+  test('rejects a wrong password', () => {
+    expect(() => decryptKeystore(PBKDF2_KEYSTORE, 'wrongpassword')).toThrow('Keystore MAC mismatch');
+  });
+
+  test('rejects a tampered ciphertext', () => {
+    const tampered = { ...PBKDF2_KEYSTORE, crypto: { ...PBKDF2_KEYSTORE.crypto, ciphertext: `0${PBKDF2_KEYSTORE.crypto.ciphertext.slice(1)}` } };
+    expect(() => decryptKeystore(tampered, PASSWORD)).toThrow('Keystore MAC mismatch');
+  });
+});
+
+describe('encryptKeystore', () => {
+  for (const kdf of ['scrypt', 'pbkdf2'] as const) {
+    test(`round-trips a key through ${kdf}`, () => {
+      const keystore = encryptKeystore(PRIVATE_KEY, PASSWORD, kdf);
+      expect(keystore.crypto.kdf).toBe(kdf);
+      expect(keystore.address).toBe('008aeeda4d805471df9b2a5b0f38a0c3bcba786b');
+      expect(decryptKeystore(keystore, PASSWORD)).toBe(PRIVATE_KEY);
+    }, 30_000);
+  }
+});
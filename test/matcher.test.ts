@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { createMatcher } from '../src/matcher.js';
+import { verifyResult } from '../src/verify.js';
+import type { GeneratorConfig, VanityAddressResult } from '../src/types.js';
+
+/**
+ * Checksummed addresses from the EIP-55 specification
+ */
+const EIP55_ADDRESSES = [
+  '0x52908400098527886E0F7030069857D2E4169EE7',
+  '0x8617E340B3D01FA5F11F306F4090FD50E238070D',
+  '0xde709f2102306220921060314715629080e2fb77',
+  '0x27b1fdb04752bbc536007a920d24acb045561c26',
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb'
+];
+
+function config(target: string, overrides: Partial<GeneratorConfig> = {}): GeneratorConfig {
+  return { target, searchMode: 'start', caseSensitive: true, numWorkers: 1, ...overrides };
+}
+
+describe('EIP-55 case-sensitive matching', () => {
+  test('matches the checksum case of lowercase addresses', () => {
+    for (const address of EIP55_ADDRESSES) {
+      const lowercase = address.toLowerCase();
+      expect(createMatcher(config(address.slice(2, 12)))(lowercase)).toBe(0);
+      expect(createMatcher(config(address.slice(-10), { searchMode: 'end' }))(lowercase)).toBe(0);
+      expect(createMatcher(config(address.slice(20, 28), { searchMode: 'position', position: 18 }))(lowercase)).toBe(0);
+    }
+  });
+
+  test('rejects targets whose letters have the wrong case', () => {
+    expect(createMatcher(config('5aaeb6'))('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')).toBe(-1);
+    expect(createMatcher(config('FB6916'))('0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359')).toBe(-1);
+    expect(createMatcher(config('5aaeb6', { caseSensitive: false }))('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')).toBe(0);
+  });
+
+  test('finds the matching target among several', () => {
+    const matches = createMatcher(config('dead', { targets: ['dead', 'D122', 'dbF0'] }));
+    expect(matches('0xd1220a0cf47c7b9be7a2e6ba89f429762e7b9adb')).toBe(1);
+    expect(matches('0xdbf03b407c01e7cd3cbea99509d93f8dddc8c6fb')).toBe(2);
+  });
+});
+
+describe('EIP-55 checksum verification', () => {
+  const checksum = (address: string) => {
+    const result = { address, target: address.slice(2, 6) } as VanityAddressResult;
+    return verifyResult(result, config(result.target, { caseSensitive: false })).checks.find(check => check.name === 'checksum')!;
+  };
+
+  test('accepts the specification addresses', () => {
+    for (const address of EIP55_ADDRESSES) {
+      expect(checksum(address).passed).toBe(true);
+    }
+  });
+
+  test('rejects an address with one letter in the wrong case', () => {
+    expect(checksum('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD').passed).toBe(false);
+  });
+});
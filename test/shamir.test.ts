@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { numberToBytesBE } from '@noble/curves/abstract/utils';
+import { bytesToHex, hexToBytes } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+import { toWif } from '../src/bitcoin.js';
+import { combineShares, recoverKey, splitResultKey, splitSecret } from '../src/shamir.js';
+import { deriveAddress } from '../src/verify.js';
+import type { VanityAddressResult } from '../src/types.js';
+
+const N = secp256k1.CURVE.n;
+const scalar = (value: bigint) => numberToBytesBE(value, 32);
+
+/**
+ * Every way of choosing `size` items from a list
+ */
+function subsets<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+}
+
+describe('combineShares', () => {
+  test('interpolates a hand-computed polynomial', () => {
+    // f(x) = 1 + 2x: shares (1, 3), (2, 5), (3, 7)
+    const shares = [{ index: 1, value: scalar(3n) }, { index: 2, value: scalar(5n) }, { index: 3, value: scalar(7n) }];
+    for (const pair of subsets(shares, 2)) {
+      expect(combineShares(pair)).toEqual(scalar(1n));
+    }
+  });
+
+  test('works modulo the curve order', () => {
+    // f(x) = (n - 1) + x: f(1) wraps to 0, f(2) to 1
+    expect(combineShares([{ index: 1, value: scalar(0n) }, { index: 2, value: scalar(1n) }])).toEqual(scalar(N - 1n));
+  });
+});
+
+describe('splitSecret', () => {
+  test('recovers the secret from every threshold-sized set of shares', () => {
+    const secret = secp256k1.utils.randomPrivateKey();
+    const shares = splitSecret(secret, { threshold: 3, shares: 5 }).map((value, i) => ({ index: i + 1, value }));
+    expect(shares).toHaveLength(5);
+    for (const chosen of [...subsets(shares, 3), ...subsets(shares, 4), shares]) {
+      expect(combineShares(chosen)).toEqual(secret);
+    }
+  });
+
+  test('gives an unrelated scalar below the threshold', () => {
+    const secret = secp256k1.utils.randomPrivateKey();
+    const shares = splitSecret(secret, { threshold: 3, shares: 5 }).map((value, i) => ({ index: i + 1, value }));
+    for (const chosen of subsets(shares, 2)) {
+      expect(combineShares(chosen)).not.toEqual(secret);
+    }
+  });
+
+  test('rejects impossible schemes', () => {
+    const secret = secp256k1.utils.randomPrivateKey();
+    expect(() => splitSecret(secret, { threshold: 1, shares: 3 })).toThrow('Cannot split');
+    expect(() => splitSecret(secret, { threshold: 4, shares: 3 })).toThrow('Cannot split');
+    expect(() => splitSecret(secret, { threshold: 2, shares: 256 })).toThrow('Cannot split');
+  });
+});
+
+describe('recoverKey', () => {
+  const privateKey = bytesToHex(secp256k1.utils.randomPrivateKey());
+  const result = { address: privateKeyToAddress(privateKey), privateKey } as VanityAddressResult;
+  const shares = splitResultKey(result, { threshold: 2, shares: 3 });
+
+  test('recovers an Ethereum key and checks it against the address', () => {
+    expect(recoverKey([shares[2]!, shares[0]!])).toEqual({ address: result.address, privateKey });
+  });
+
+  test('recovers a Bitcoin key as WIF', () => {
+    const wif = toWif(hexToBytes(privateKey));
+    const address = deriveAddress({ wif }, { chain: 'bitcoin', bitcoinFormat: 'p2pkh' })!;
+    const bitcoinShares = splitResultKey({ address, wif } as VanityAddressResult, { threshold: 2, shares: 2 }, 'bitcoin', 'p2pkh');
+    expect(recoverKey(bitcoinShares)).toEqual({ address, wif });
+  });
+
+  test('rejects shares that cannot recover the key', () => {
+    expect(() => recoverKey([shares[0]!])).toThrow('Need 2 of 3 shares');
+    expect(() => recoverKey([shares[0]!, shares[0]!])).toThrow('more than once');
+    const other = splitResultKey(result, { threshold: 2, shares: 4 });
+    expect(() => recoverKey([shares[0]!, other[1]!])).toThrow('different splits');
+    const tampered = { ...shares[1]!, share: bytesToHex(scalar(12345n)) };
+    expect(() => recoverKey([shares[0]!, tampered])).toThrow('do not belong together');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import { encodeFunctionData, getContractAddress, parseAbi, toHex, type Address } from 'viem';
+import { generateAddresses } from '../src/api.js';
+import { createSmartAccountMiner, getSmartAccountAddress, SMART_ACCOUNT_VERSIONS } from '../src/smartaccount.js';
+import { validateConfig } from '../src/utils.js';
+import type { GeneratorConfig, SmartAccountType } from '../src/types.js';
+
+const owners = ['0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf', '0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF'];
+const nonce = toHex(0xc0ffeen, { size: 32 });
+
+/**
+ * Addresses the canonical factories deploy for `owners` (both for Safe, with
+ * threshold 2; the first for SimpleAccount) and `nonce`
+ *
+ * Taken from each release's published contract artifacts
+ * (@gnosis.pm/safe-contracts 1.3.0, @safe-global/safe-contracts 1.4.1,
+ * @account-abstraction/contracts 0.6.0 and 0.7.0), run in an EVM at the
+ * canonical factory addresses: the return value of createProxyWithNonce for
+ * Safe and of getAddress for SimpleAccount.
+ */
+const DEPLOYED_ADDRESSES: Record<SmartAccountType, Record<string, Address>> = {
+  safe: {
+    '1.3.0': '0xf680C8C8F18683Bd424c239AD15F440cF2c27853',
+    '1.4.1': '0xb134Cb18F52a000DeD81c59d179c6ee404e1a085'
+  },
+  'simple-account': {
+    '0.6': '0xCA9335D290c5EC7bE36459b7e5d71399827BB420',
+    '0.7': '0xD719375A76f9E987F49890Ef2c13E1e27Aa6e09b'
+  }
+};
+
+/**
+ * Builds a search for a Safe with two owners or a SimpleAccount with one
+ */
+function createConfig(addressType: SmartAccountType, accountVersion: string): GeneratorConfig {
+  return {
+    target: 'a',
+    searchMode: 'start',
+    caseSensitive: false,
+    numWorkers: 1,
+    addressType,
+    accountVersion,
+    owners: addressType === 'safe' ? owners : owners.slice(0, 1),
+    ...(addressType === 'safe' && { threshold: 2 })
+  };
+}
+
+describe('smart account deployments', () => {
+  test('cover every version with a known address', () => {
+    for (const type of ['safe', 'simple-account'] as const) {
+      expect(Object.keys(DEPLOYED_ADDRESSES[type])).toEqual(SMART_ACCOUNT_VERSIONS[type]);
+    }
+  });
+
+  for (const type of ['safe', 'simple-account'] as const) {
+    for (const version of SMART_ACCOUNT_VERSIONS[type]) {
+      test(`${type} ${version} deploys where the mined salt points`, () => {
+        const config = createConfig(type, version);
+        expect(validateConfig(config)).toEqual([]);
+
+        const miner = createSmartAccountMiner(config);
+        const deployment = miner.getDeployment(nonce);
+        const mined = getContractAddress({ opcode: 'CREATE2', from: miner.factory, salt: miner.getSalt(nonce), bytecodeHash: miner.initCodeHash });
+        expect(mined).toBe(DEPLOYED_ADDRESSES[type][version]!);
+        expect(getSmartAccountAddress(deployment)).toBe(mined);
+        expect(deployment.factory).toBe(miner.factory);
+
+        const other = createSmartAccountMiner({ ...config, owners: [owners[1]!] });
+        expect(getSmartAccountAddress(other.getDeployment(nonce))).not.toBe(mined);
+      });
+    }
+  }
+
+  test('reject a call that deploys a different singleton', () => {
+    const deployment = createSmartAccountMiner(createConfig('safe', '1.4.1')).getDeployment(nonce);
+    const singleton = createSmartAccountMiner(createConfig('safe', '1.3.0')).getDeployment(nonce).singleton;
+    expect(() => getSmartAccountAddress({ ...deployment, singleton })).toThrow(`not ${singleton}`);
+  });
+
+  test('reject calls to other factory methods and unknown versions', () => {
+    const deployment = createSmartAccountMiner(createConfig('safe', '1.4.1')).getDeployment(nonce);
+    const data = encodeFunctionData({
+      abi: parseAbi(['function createChainSpecificProxyWithNonce(address _singleton, bytes initializer, uint256 saltNonce)']),
+      functionName: 'createChainSpecificProxyWithNonce',
+      args: [deployment.singleton as `0x${string}`, '0x', 1n]
+    });
+    expect(() => getSmartAccountAddress({ ...deployment, data })).toThrow('not found on ABI');
+    expect(() => getSmartAccountAddress({ ...deployment, version: '9.9.9' })).toThrow('Unknown Safe version: 9.9.9');
+  });
+
+  test('reported by the search carry the call that deploys them', async () => {
+    const config = { ...createConfig('safe', '1.4.1'), count: 3 };
+    const found = await Array.fromAsync(generateAddresses(config));
+
+    expect(found).toHaveLength(3);
+    for (const { address, deployment } of found) {
+      expect(address.toLowerCase().startsWith('0xa')).toBe(true);
+      expect(address).toBe(getSmartAccountAddress(deployment!));
+    }
+  }, 30_000);
+});
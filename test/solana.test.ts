@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { ed25519 } from '@noble/curves/ed25519';
+import { hexToBytes } from 'viem';
+import { getBase58LengthProbability } from '../src/base58.js';
+import { getAddressFormat } from '../src/chains.js';
+import { generateSolanaKeypair } from '../src/solana.js';
+import { getMatchProbability } from '../src/utils.js';
+import { deriveAddress } from '../src/verify.js';
+
+/**
+ * Secret key of the first ed25519 test vector in RFC 8032
+ */
+const RFC8032_SEED = hexToBytes('0x9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+
+describe('Solana keypairs', () => {
+  test('derive the base58 address of the RFC 8032 public key', () => {
+    const keypair = [...RFC8032_SEED, ...ed25519.getPublicKey(RFC8032_SEED)];
+    expect(deriveAddress({ keypair }, { chain: 'solana' })).toBe('FVen3X669xLzsi6N2V91DoiyzHzg1uAgqiT8jZ9nS96Z');
+  });
+
+  test('reject a keypair whose public key does not belong to its seed', () => {
+    const { keypair } = generateSolanaKeypair();
+    const mismatched = [...RFC8032_SEED, ...keypair.slice(32)];
+    expect(() => deriveAddress({ keypair: mismatched }, { chain: 'solana' })).toThrow('does not belong to its seed');
+  });
+
+  test('generate addresses their keypairs derive, of at most 44 characters', () => {
+    for (let i = 0; i < 20; i++) {
+      const { address, keypair } = generateSolanaKeypair();
+      expect(address.length).toBeLessThanOrEqual(44);
+      expect(deriveAddress({ keypair }, { chain: 'solana' })).toBe(address);
+    }
+  });
+});
+
+describe('base58 address lengths', () => {
+  test('put about 94% of 32-byte keys at 44 characters', () => {
+    expect(getBase58LengthProbability(44)).toBeCloseTo(0.942, 3);
+    expect(getBase58LengthProbability(43)).toBeCloseTo(0.999, 3);
+    expect(getBase58LengthProbability(45)).toBe(0);
+    expect(getBase58LengthProbability(1)).toBe(1);
+  });
+
+  test('scale position estimates near the end by the addresses long enough to reach', () => {
+    const format = getAddressFormat({ chain: 'solana' });
+    const early = getMatchProbability('Sok', 'position', true, format, 0);
+    const late = getMatchProbability('Sok', 'position', true, format, 41);
+    expect(early).toBeCloseTo(58 ** -3, 12);
+    expect(late / early).toBeCloseTo(getBase58LengthProbability(44), 6);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { toHex, type Hex } from 'viem';
+import { generateAddresses } from '../src/api.js';
+import { combineAndVerify, combineSplitKey, generateSplitKeySecret } from '../src/splitkey.js';
+import { validateConfig } from '../src/utils.js';
+import { deriveAddress } from '../src/verify.js';
+import type { GeneratorConfig } from '../src/types.js';
+
+const N = secp256k1.CURVE.n;
+const key = (value: bigint) => toHex(value, { size: 32 });
+
+describe('combineSplitKey', () => {
+  test('adds the scalars modulo the curve order', () => {
+    expect(combineSplitKey(key(1n), key(2n))).toBe(key(3n));
+    expect(combineSplitKey(key(N - 1n), key(2n))).toBe(key(1n));
+    expect(() => combineSplitKey(key(N - 1n), key(1n))).toThrow('Combined key is zero');
+  });
+
+  test('derives the address of the summed key', () => {
+    expect(combineAndVerify(key(1n), key(2n)).address).toBe('0x6813Eb9362372EEF6200f3b1dbC3f819671cBA69');
+    expect(() => combineAndVerify(key(1n), key(2n), '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf')).toThrow('expected');
+  });
+});
+
+describe('split-key search', () => {
+  test('finds partial keys whose combination derives the reported address', async () => {
+    const secret = generateSplitKeySecret();
+    const config: GeneratorConfig = {
+      target: 'a',
+      searchMode: 'start',
+      caseSensitive: false,
+      numWorkers: 1,
+      addressType: 'split-key',
+      publicKey: secret.publicKey,
+      count: 3
+    };
+    expect(validateConfig(config)).toEqual([]);
+
+    const found = await Array.fromAsync(generateAddresses(config));
+
+    expect(found).toHaveLength(3);
+    for (const { address, partialKey, privateKey } of found) {
+      expect(privateKey).toBeUndefined();
+      expect(address.toLowerCase().startsWith('0xa')).toBe(true);
+      expect(combineAndVerify(secret.privateKey, partialKey as Hex, address).address).toBe(address);
+      expect(deriveAddress({ partialKey }, config)).toBe(address);
+    }
+  }, 30_000);
+
+  test('rejects a public key that is not on the curve', () => {
+    const publicKey = `0x04${'11'.repeat(64)}`;
+    const config: GeneratorConfig = { target: 'a', searchMode: 'start', caseSensitive: false, numWorkers: 1, addressType: 'split-key', publicKey };
+    expect(validateConfig(config)).toContain('Public key is not a valid point on the secp256k1 curve');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import { compileScoreExpression, createScorer, getScoreInputs, validateConfig, validateScoreExpression } from '../src/utils.js';
+import type { GeneratorConfig } from '../src/types.js';
+
+/** Three leading zero nibbles, one zero byte, 32 ones and four trailing f's */
+const address = `0x000a${'1'.repeat(32)}ffff`;
+
+const score = (expression: string) => compileScoreExpression(expression)(getScoreInputs(address));
+
+describe('score expressions', () => {
+  test('read the address features', () => {
+    expect(score('leadingZeroNibbles')).toBe(3);
+    expect(score('leadingZeroBytes')).toBe(1);
+    expect(score('zeroNibbles')).toBe(3);
+    expect(score('zeroBytes')).toBe(1);
+  });
+
+  test('count leading, trailing and total hex characters', () => {
+    expect(score("leading('0')")).toBe(3);
+    expect(score("leading('0A')")).toBe(4);
+    expect(score("trailing('f')")).toBe(4);
+    expect(score("count('1')")).toBe(32);
+    expect(score("count('0f')")).toBe(7);
+  });
+
+  test('follow arithmetic precedence', () => {
+    expect(score('1 + 2 * 3')).toBe(7);
+    expect(score('(1 + 2) * 3')).toBe(9);
+    expect(score('10 - 4 - 3')).toBe(3);
+    expect(score('7 % 4 / 2')).toBe(1.5);
+    expect(score('2 ** 3 ** 2')).toBe(512);
+    expect(score('-2 ** 2')).toBe(-4);
+    expect(score('min(zeroBytes, 4) + max(1, 2, 3)')).toBe(4);
+    expect(score("leading('0') * 2 + trailing('f')")).toBe(10);
+  });
+
+  test('reject anything beyond the whitelist', () => {
+    const rejected = [
+      'process.exit(1)',
+      'constructor',
+      'toString(1)',
+      "constructor('return process')()",
+      'globalThis',
+      'zeroBytes; 1',
+      '1 +',
+      '(1',
+      'min()',
+      'count(zeroBytes)',
+      "leading('xyz')",
+      ''
+    ];
+    for (const expression of rejected) {
+      expect(() => compileScoreExpression(expression)).toThrow();
+      expect(validateScoreExpression(expression)[0]).toStartWith('Invalid score expression: ');
+    }
+  });
+
+  test('must evaluate to a finite number', () => {
+    expect(validateScoreExpression('zeroBytes / 0')).toEqual(['Score expression must evaluate to a finite number']);
+  });
+});
+
+describe('createScorer', () => {
+  test('scores with the built-in rules', () => {
+    expect(createScorer('leading-zeros')(address)).toBe(3);
+    expect(createScorer('zero-bytes')(address)).toBe(1);
+    expect(createScorer('expression', 'leadingZeroBytes * 10 + zeroNibbles')(address)).toBe(13);
+  });
+});
+
+describe('score mode configuration', () => {
+  const config: GeneratorConfig = {
+    target: '',
+    searchMode: 'score',
+    caseSensitive: false,
+    numWorkers: 1,
+    scoreRule: 'expression',
+    scoreExpression: 'zeroBytes'
+  };
+
+  test('requires a time or attempt budget', () => {
+    expect(validateConfig(config)).toContain('Score mode requires a time or attempt budget (max time or max attempts)');
+    expect(validateConfig({ ...config, maxTime: 10 })).toEqual([]);
+    expect(validateConfig({ ...config, maxAttempts: 1000 })).toEqual([]);
+  });
+
+  test('rejects an expression outside the whitelist', () => {
+    expect(validateConfig({ ...config, maxTime: 10, scoreExpression: 'process.exit(1)' })[0]).toStartWith('Invalid score expression: ');
+  });
+});
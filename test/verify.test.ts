@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { concat, getAddress, keccak256, numberToHex, type Hex } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+import { generateAddresses } from '../src/api.js';
+import { validateConfig } from '../src/utils.js';
+import { deriveAddress, verifyResult } from '../src/verify.js';
+import type { GeneratorConfig } from '../src/types.js';
+
+/**
+ * Hashes the RLP list [sender, nonce] by hand, for nonces below 256
+ */
+function createAddress(sender: string, nonce: number): string {
+  const encodedNonce: Hex = nonce === 0 ? '0x80' : nonce < 0x80 ? numberToHex(nonce, { size: 1 }) : concat(['0x81', numberToHex(nonce, { size: 1 })]);
+  const body = concat(['0x94', sender as Hex, encodedNonce]);
+  const hash = keccak256(concat([numberToHex(0xc0 + (body.length - 2) / 2, { size: 1 }), body]));
+  return getAddress(`0x${hash.slice(-40)}`);
+}
+
+describe('CREATE addresses', () => {
+  const key = `0x${'00'.repeat(31)}01`;
+  const sender = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+
+  test('hash the RLP encoding of the deployer and nonce', () => {
+    const deployer = '0x6ac7ea33f8831ea9dcc53393aaa88b25a785dbf0';
+    expect(createAddress(deployer, 0)).toBe(getAddress('0xcd234a471b72ba2f1ccf0a70fcaba648a5eecd8d'));
+    expect(createAddress(deployer, 1)).toBe(getAddress('0x343c43a37d37dff08ae8c4a11544c718abb4fcf8'));
+
+    for (const nonce of [0, 1, 2, 127, 128, 255]) {
+      expect(deriveAddress({ privateKey: key, nonce }, {})).toBe(createAddress(sender, nonce));
+      expect(deriveAddress({ privateKey: key, nonce, deployer: sender.toLowerCase() }, {})).toBe(createAddress(sender, nonce));
+    }
+  });
+
+  test('reject a key that does not control the recorded deployer', () => {
+    const deployer = '0x6813Eb9362372EEF6200f3b1dbC3f819671cBA69';
+    expect(() => deriveAddress({ privateKey: key, nonce: 0, deployer }, {})).toThrow(`Key controls deployer ${sender}, not ${deployer}`);
+  });
+
+  test('come from the deployer keys and nonces the search mines', async () => {
+    const config: GeneratorConfig = {
+      target: 'c',
+      searchMode: 'start',
+      caseSensitive: false,
+      numWorkers: 1,
+      addressType: 'create',
+      nonceCount: 4,
+      count: 3
+    };
+    expect(validateConfig(config)).toEqual([]);
+
+    const results = await Array.fromAsync(generateAddresses(config));
+    expect(results).toHaveLength(3);
+    for (const result of results) {
+      expect(result.nonce).toBeGreaterThanOrEqual(0);
+      expect(result.nonce).toBeLessThan(4);
+      expect(result.deployer).toBe(privateKeyToAddress(result.privateKey as Hex));
+      expect(result.address).toBe(createAddress(result.deployer!, result.nonce!));
+      expect(verifyResult(result, config).passed).toBe(true);
+    }
+  }, 30_000);
+});
+
+describe('CREATE2 addresses', () => {
+  /** Examples from EIP-1014 */
+  const vectors: [deployer: string, salt: Hex, initCode: Hex, address: string][] = [
+    ['0x0000000000000000000000000000000000000000', `0x${'00'.repeat(32)}`, '0x00', '0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38'],
+    ['0xdeadbeef00000000000000000000000000000000', `0x${'00'.repeat(32)}`, '0x00', '0xB928f69Bb1D91Cd65274e3c79d8986362984fDA3'],
+    ['0xdeadbeef00000000000000000000000000000000', `0x${'00'.repeat(12)}feed${'00'.repeat(18)}`, '0x00', '0xD04116cDd17beBE565EB2422F2497E06cC1C9833'],
+    ['0x0000000000000000000000000000000000000000', `0x${'00'.repeat(32)}`, '0xdeadbeef', '0x70f2b2914A2a4b783FaEFb75f459A580616Fcb5e'],
+    ['0x00000000000000000000000000000000deadbeef', `0x${'00'.repeat(28)}cafebabe`, '0xdeadbeef', '0x60f3f640a8508fC6a86d45DF051962668E1e8AC7']
+  ];
+
+  test('derive the EIP-1014 example addresses', () => {
+    for (const [deployer, salt, initCode, address] of vectors) {
+      expect(deriveAddress({ salt }, { deployer, initCodeHash: keccak256(initCode) })).toBe(address);
+    }
+  });
+
+  test('come from the salts the search mines', async () => {
+    const config: GeneratorConfig = {
+      target: 'be',
+      searchMode: 'end',
+      caseSensitive: false,
+      numWorkers: 1,
+      addressType: 'create2',
+      deployer: '0x4e59b44847b379578588920cA78FbF26c0B4956C',
+      initCodeHash: keccak256('0x00'),
+      count: 2
+    };
+    expect(validateConfig(config)).toEqual([]);
+
+    const results = await Array.fromAsync(generateAddresses(config));
+    expect(results).toHaveLength(2);
+    for (const result of results) {
+      expect(result.salt).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(deriveAddress(result, config)).toBe(result.address);
+      expect(verifyResult(result, config).passed).toBe(true);
+    }
+
+    const report = verifyResult(results[0]!, { ...config, initCodeHash: keccak256('0x01') });
+    expect(report.passed).toBe(false);
+    expect(report.checks.find(check => check.name === 'key')?.passed).toBe(false);
+  }, 30_000);
+});